@@ -1,12 +1,23 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { ChatMessage, ModelOption, ChatHistoryItem, ChatSettings, WebSocketProxyStatus } from './types';
-import { DEFAULT_MODEL_ID, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_TEMPERATURE, DEFAULT_TOP_P, DEFAULT_SHOW_THOUGHTS } from './constants';
+import { ChatMessage, ModelOption, ChatHistoryItem, ChatSettings, WebSocketProxyStatus, WebSocketProxyStats, ProxyPolicy, ProxyPolicyDecision, ProxyRewriteRule, ProxyTrafficEntry, ProxyEndpointState, ProxyCacheConfig, ProxyCacheStats, RateLimitConfig, RateLimitBucketState, UsageLedgerEntry, ModelPrice, TabCoordinatorState } from './types';
+import { DEFAULT_MODEL_ID, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_TEMPERATURE, DEFAULT_TOP_P, DEFAULT_SHOW_THOUGHTS, PROXY_API_KEY_SECRET } from './constants';
 import { Header } from './components/Header';
 import { MessageList } from './components/MessageList';
 import { ChatInput } from './components/ChatInput';
 import { SettingsModal } from './components/SettingsModal';
+import { ProxyInspectorModal } from './components/ProxyInspectorModal';
+import { UsageDashboardModal } from './components/UsageDashboardModal';
 import { geminiServiceInstance } from './services/geminiService';
-import { webSocketProxyManager } from './services/webSocketService'; // Updated import if filename changed, or keep if same
+import { webSocketProxyManager, proxyWorkerClient } from './services/proxyWorkerClient';
+import { proxyPolicyManager } from './services/proxyPolicy';
+import { proxyRewriteManager } from './services/proxyRewrite';
+import { proxyInspector } from './services/proxyInspector';
+import { proxyCacheManager } from './services/proxyCache';
+import { rateLimitManager } from './services/rateLimiter';
+import { usageLedgerManager } from './services/usageLedger';
+import { proxyEndpointManager } from './services/proxyEndpoints';
+import { proxyAuthManager } from './services/proxyAuth';
+import { tabCoordinator, TabRelayCommand } from './services/tabCoordinator';
 import { Chat } from '@google/genai';
 
 const App: React.FC = () => {
@@ -38,7 +49,24 @@ const App: React.FC = () => {
 
   const [webSocketStatus, setWebSocketStatus] = useState<WebSocketProxyStatus>(WebSocketProxyStatus.IDLE);
   const [webSocketStatusDetails, setWebSocketStatusDetails] = useState<string | undefined>(undefined);
-  const [jwtToken, setJwtToken] = useState<string | null>(process.env.JWT_TOKEN || null);
+  const [webSocketStats, setWebSocketStats] = useState<WebSocketProxyStats>({ inFlight: 0, queued: 0 });
+  const [proxyPolicy, setProxyPolicy] = useState<ProxyPolicy>(proxyPolicyManager.getPolicy());
+  const [policyAuditLog, setPolicyAuditLog] = useState<ProxyPolicyDecision[]>([]);
+  const [rewriteRules, setRewriteRules] = useState<ProxyRewriteRule[]>(proxyRewriteManager.getRules());
+  const [proxyApiKey, setProxyApiKey] = useState<string>(proxyRewriteManager.getSecret(PROXY_API_KEY_SECRET));
+  const [isInspectorOpen, setIsInspectorOpen] = useState<boolean>(false);
+  const [proxyTraffic, setProxyTraffic] = useState<ProxyTrafficEntry[]>([]);
+  const [cacheConfig, setCacheConfig] = useState<ProxyCacheConfig>(proxyCacheManager.getConfig());
+  const [cacheStats, setCacheStats] = useState<ProxyCacheStats>(proxyCacheManager.getStats());
+  const [rateLimitConfig, setRateLimitConfig] = useState<RateLimitConfig>(rateLimitManager.getConfig());
+  const [rateLimitBuckets, setRateLimitBuckets] = useState<RateLimitBucketState[]>([]);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [usageEntries, setUsageEntries] = useState<UsageLedgerEntry[]>(usageLedgerManager.getEntries());
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(usageLedgerManager.getPrices());
+  const [tabState, setTabState] = useState<TabCoordinatorState>(tabCoordinator.getState());
+  const relayCommandRef = useRef<(command: TabRelayCommand) => void>(() => {});
+  const [endpointState, setEndpointState] = useState<ProxyEndpointState>(proxyEndpointManager.getState());
+  const [jwtToken, setJwtToken] = useState<string | null>(proxyAuthManager.getToken());
 
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -49,22 +77,17 @@ const App: React.FC = () => {
 
   useEffect(scrollToBottom, [messages]);
 
-  // Effect to handle JWT token and inform user if missing
+  // Inform the user if no proxy token has been entered yet
   useEffect(() => {
-    // const token = process.env.JWT_TOKEN;
-    const token = process.env.JWT_TOKEN || "valid-token-user-1";
-    if (!token) {
-      console.warn("JWT_TOKEN environment variable is not set. WebSocket Proxy connection will not be possible.");
-      // Optionally, display a persistent message to the user in the UI.
-      // For now, relying on console warning and connection attempt failure.
+    if (!proxyAuthManager.getToken()) {
+      console.warn("No WebSocket Proxy token is stored. Enter one in Settings to use the proxy.");
       setMessages(prev => [...prev, {
           id: `jwt-warning-${Date.now()}`,
           role: 'system',
-          content: 'Warning: JWT_TOKEN is not configured. WebSocket Proxy functionality will be unavailable.',
+          content: 'Warning: No WebSocket Proxy token is configured. Enter one in Settings to use the proxy.',
           timestamp: new Date()
       }]);
     }
-    setJwtToken(token || null);
   }, []);
 
 
@@ -289,38 +312,187 @@ const App: React.FC = () => {
             }]);
        }
     });
+    webSocketProxyManager.setOnStatsChange(setWebSocketStats);
+    proxyWorkerClient.setOnPolicyAuditChange(setPolicyAuditLog);
+    proxyWorkerClient.setOnTrafficChange(setProxyTraffic);
+    proxyWorkerClient.setOnCacheStatsChange(setCacheStats);
+    proxyWorkerClient.setOnRateLimitChange(setRateLimitBuckets);
+    usageLedgerManager.setOnChange(setUsageEntries);
+    proxyWorkerClient.setOnEndpointStateChange(setEndpointState);
+    webSocketProxyManager.setOnAuthRequired((reason) => {
+      setMessages(prev => [...prev, {
+          id: `jwt-required-${Date.now()}`,
+          role: 'system',
+          content: `WebSocket Proxy: ${reason}`,
+          timestamp: new Date()
+      }]);
+      setIsSettingsModalOpen(true);
+    });
+
+    // Only the leader tab connects; the others show its status and forward connect/disconnect
+    tabCoordinator.setOnChange(setTabState);
+    tabCoordinator.setOnRemoteState((snapshot) => {
+      setWebSocketStatus(snapshot.status);
+      setWebSocketStatusDetails(snapshot.details);
+      setWebSocketStats(snapshot.stats);
+      setEndpointState(snapshot.endpoints);
+      setRateLimitBuckets(snapshot.rateLimits);
+    });
+    tabCoordinator.setOnCommand((command) => relayCommandRef.current(command));
+    tabCoordinator.setOnBecomeLeader((resumeRelay) => {
+      // Drop the mirrored state; this tab's own connection starts out idle
+      setWebSocketStatus(WebSocketProxyStatus.IDLE);
+      setWebSocketStatusDetails(undefined);
+      setWebSocketStats({ inFlight: 0, queued: 0 });
+      proxyWorkerClient.setOnEndpointStateChange(setEndpointState); // Replays this tab's own state
+      proxyWorkerClient.setOnRateLimitChange(setRateLimitBuckets);
+      const token = proxyAuthManager.getToken();
+      if (resumeRelay && token) {
+        webSocketProxyManager.connect(token);
+      }
+    });
+    tabCoordinator.setOnRateLimitRequest(proxyWorkerClient.acquireRateLimit);
+    tabCoordinator.setOnConfig((config) => {
+      const changed = proxyWorkerClient.applySharedConfig(config);
+      setProxyPolicy(proxyPolicyManager.getPolicy());
+      setRewriteRules(proxyRewriteManager.getRules());
+      setProxyApiKey(proxyRewriteManager.getSecret(PROXY_API_KEY_SECRET));
+      setCacheConfig(proxyCacheManager.getConfig());
+      setRateLimitConfig(rateLimitManager.getConfig());
+      if (changed.includes('token')) {
+        const token = proxyAuthManager.getToken();
+        setJwtToken(token);
+        webSocketProxyManager.updateToken(token);
+      }
+    });
+    tabCoordinator.start();
 
     // Cleanup on component unmount
     return () => {
       webSocketProxyManager.setOnStatusChange(null);
+      webSocketProxyManager.setOnStatsChange(null);
+      proxyWorkerClient.setOnPolicyAuditChange(null);
+      proxyWorkerClient.setOnTrafficChange(null);
+      proxyWorkerClient.setOnCacheStatsChange(null);
+      proxyWorkerClient.setOnRateLimitChange(null);
+      usageLedgerManager.setOnChange(null);
+      proxyWorkerClient.setOnEndpointStateChange(null);
+      webSocketProxyManager.setOnAuthRequired(null);
       webSocketProxyManager.disconnect(); // Ensure disconnection on unmount
+      tabCoordinator.setOnChange(null);
+      tabCoordinator.setOnRemoteState(null);
+      tabCoordinator.setOnCommand(null);
+      tabCoordinator.setOnBecomeLeader(null);
+      tabCoordinator.setOnRateLimitRequest(null);
+      tabCoordinator.setOnConfig(null);
+      tabCoordinator.stop();
     };
   }, []); // Empty dependency array means this runs once on mount and cleans up on unmount
 
+  useEffect(() => {
+    if (tabState.isLeader) {
+      tabCoordinator.publishState({
+        status: webSocketStatus,
+        details: webSocketStatusDetails,
+        stats: webSocketStats,
+        endpoints: endpointState,
+        rateLimits: rateLimitBuckets,
+      });
+    }
+  }, [tabState.isLeader, webSocketStatus, webSocketStatusDetails, webSocketStats, endpointState, rateLimitBuckets]);
+
+  useEffect(() => {
+    proxyWorkerClient.setTrafficBodies(isInspectorOpen);
+  }, [isInspectorOpen]);
+
   const handleWebSocketConnect = () => {
-    if (!jwtToken) {
+    if (tabCoordinator.sendCommand('connect')) return; // Another tab owns the connection
+    // Read from the manager, not state: a token saved in another tab may not have rendered yet
+    const token = proxyAuthManager.getToken();
+    if (!token) {
        setMessages(prev => [...prev, {
           id: `jwt-err-connect-${Date.now()}`,
           role: 'error',
-          content: 'Cannot connect WebSocket Proxy: JWT_TOKEN is not available. Please configure it.',
+          content: 'Cannot connect WebSocket Proxy: no token is configured. Enter one in Settings.',
           timestamp: new Date()
       }]);
-      console.error("WebSocket Proxy: Cannot connect, JWT_TOKEN is not available.");
+      console.error("WebSocket Proxy: Cannot connect, no token is configured.");
       setWebSocketStatus(WebSocketProxyStatus.ERROR);
-      setWebSocketStatusDetails("JWT_TOKEN is not available.");
+      setWebSocketStatusDetails("No proxy token configured.");
       return;
     }
     if (webSocketStatus !== WebSocketProxyStatus.CONNECTED && webSocketStatus !== WebSocketProxyStatus.CONNECTING) {
-      webSocketProxyManager.connect(jwtToken);
+      webSocketProxyManager.connect(token);
     }
   };
 
   const handleWebSocketDisconnect = () => {
-    if (webSocketStatus === WebSocketProxyStatus.CONNECTED || webSocketStatus === WebSocketProxyStatus.CONNECTING || webSocketStatus === WebSocketProxyStatus.RECONNECTING) {
+    if (tabCoordinator.sendCommand('disconnect')) return;
+    if (webSocketStatus === WebSocketProxyStatus.CONNECTED || webSocketStatus === WebSocketProxyStatus.CONNECTING || webSocketStatus === WebSocketProxyStatus.RECONNECTING || webSocketStatus === WebSocketProxyStatus.DRAINING) {
       webSocketProxyManager.disconnect();
     }
   };
 
+  // Lets in-flight requests finish before closing; Disconnect during a drain closes right away
+  const handleWebSocketDrain = () => {
+    if (tabCoordinator.sendCommand('drain')) return;
+    if (webSocketStatus === WebSocketProxyStatus.CONNECTED) {
+      webSocketProxyManager.drain();
+    }
+  };
+
+  const relayCommandHandlers: Record<TabRelayCommand, () => void> = {
+    connect: handleWebSocketConnect,
+    disconnect: handleWebSocketDisconnect,
+    drain: handleWebSocketDrain,
+  };
+  relayCommandRef.current = (command) => relayCommandHandlers[command]();
+
+  // Saved proxy settings go to this tab's worker and to the other tabs; the leader relays with them
+  const syncProxyConfig = () => {
+    proxyWorkerClient.syncConfig();
+    tabCoordinator.shareConfig(proxyWorkerClient.getConfig());
+  };
+
+  const handleSaveProxyToken = (token: string) => {
+    proxyAuthManager.setToken(token);
+    const storedToken = proxyAuthManager.getToken();
+    setJwtToken(storedToken);
+    syncProxyConfig();
+    webSocketProxyManager.updateToken(storedToken);
+  };
+
+  const handleSaveEndpoints = (urls: string[]) => {
+    proxyEndpointManager.setEndpoints(urls);
+    syncProxyConfig();
+  };
+
+  const handleExportHar = () => {
+    const har = proxyInspector.exportHar(proxyTraffic);
+    const blob = new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' });
+    const downloadUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = `ws-proxy-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+    link.click();
+    URL.revokeObjectURL(downloadUrl);
+  };
+
+  const handleExportUsageCsv = () => {
+    const blob = new Blob([usageLedgerManager.exportCsv()], { type: 'text/csv' });
+    const downloadUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = `token-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(downloadUrl);
+  };
+
+  const handleSaveModelPrices = (newPrices: ModelPrice[]) => {
+    usageLedgerManager.setPrices(newPrices);
+    setModelPrices(usageLedgerManager.getPrices());
+  };
+
   const handleClearChat = () => {
     setMessages([]);
     setInputText('');
@@ -344,6 +516,32 @@ const App: React.FC = () => {
     // Chat session will re-initialize due to useEffect dependency changes
   };
 
+  const handleSaveProxyPolicy = (newPolicy: ProxyPolicy) => {
+    proxyPolicyManager.setPolicy(newPolicy);
+    setProxyPolicy(proxyPolicyManager.getPolicy());
+    syncProxyConfig();
+  };
+
+  const handleSaveCacheConfig = (newConfig: ProxyCacheConfig) => {
+    proxyCacheManager.setConfig(newConfig);
+    setCacheConfig(proxyCacheManager.getConfig());
+    syncProxyConfig();
+  };
+
+  const handleSaveRateLimitConfig = (newConfig: RateLimitConfig) => {
+    rateLimitManager.setConfig(newConfig);
+    setRateLimitConfig(rateLimitManager.getConfig());
+    syncProxyConfig();
+  };
+
+  const handleSaveProxyRewrite = (newRules: ProxyRewriteRule[], newApiKey: string) => {
+    proxyRewriteManager.setRules(newRules);
+    proxyRewriteManager.setSecret(PROXY_API_KEY_SECRET, newApiKey);
+    setRewriteRules(proxyRewriteManager.getRules());
+    setProxyApiKey(newApiKey);
+    syncProxyConfig();
+  };
+
   const handleEditMessage = (messageId: string) => {
     const messageToEdit = messages.find(msg => msg.id === messageId);
     if (messageToEdit && messageToEdit.role === 'user') {
@@ -377,12 +575,19 @@ const App: React.FC = () => {
       <Header
         onClearChat={handleClearChat}
         onOpenSettingsModal={() => setIsSettingsModalOpen(true)}
+        onOpenInspector={() => setIsInspectorOpen(true)}
+        onOpenUsage={() => setIsUsageOpen(true)}
         isLoading={isUIBusy}
         currentModelName={getCurrentModelDisplayName()}
         webSocketStatus={webSocketStatus}
         webSocketStatusDetails={webSocketStatusDetails}
+        webSocketStats={webSocketStats}
+        currentEndpoint={endpointState.endpoints.find(endpoint => endpoint.url === endpointState.currentUrl)}
+        relayTab={tabState}
+        rateLimitBuckets={rateLimitConfig.enabled ? rateLimitBuckets : []}
         onConnectWebSocket={handleWebSocketConnect}
         onDisconnectWebSocket={handleWebSocketDisconnect}
+        onDrainWebSocket={handleWebSocketDrain}
       />
       {modelsLoadingError && (
          <div className="p-2 bg-red-800 text-center text-xs text-white">{modelsLoadingError}</div>
@@ -405,6 +610,41 @@ const App: React.FC = () => {
         onSave={handleSaveSettings}
         isModelsLoading={isModelsLoading}
         modelsLoadingError={modelsLoadingError}
+        currentProxyPolicy={proxyPolicy}
+        onSaveProxyPolicy={handleSaveProxyPolicy}
+        policyAuditLog={policyAuditLog}
+        onClearPolicyAudit={proxyWorkerClient.clearPolicyAudit}
+        currentRewriteRules={rewriteRules}
+        currentProxyApiKey={proxyApiKey}
+        onSaveProxyRewrite={handleSaveProxyRewrite}
+        endpointState={endpointState}
+        currentProxyToken={jwtToken || ''}
+        onSaveProxyToken={handleSaveProxyToken}
+        onSaveEndpoints={handleSaveEndpoints}
+        currentCacheConfig={cacheConfig}
+        onSaveCacheConfig={handleSaveCacheConfig}
+        currentRateLimitConfig={rateLimitConfig}
+        onSaveRateLimitConfig={handleSaveRateLimitConfig}
+      />
+      <ProxyInspectorModal
+        isOpen={isInspectorOpen}
+        onClose={() => setIsInspectorOpen(false)}
+        entries={proxyTraffic}
+        onClear={proxyWorkerClient.clearTraffic}
+        onExportHar={handleExportHar}
+        cacheStats={cacheConfig.enabled ? cacheStats : null}
+        onPurgeCache={proxyWorkerClient.purgeCache}
+        relayTabId={tabState.isLeader ? null : tabState.leaderId}
+      />
+      <UsageDashboardModal
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
+        entries={usageEntries}
+        prices={modelPrices}
+        estimateCost={usageLedgerManager.estimateCost}
+        onSavePrices={handleSaveModelPrices}
+        onExportCsv={handleExportUsageCsv}
+        onClear={usageLedgerManager.clear}
       />
       <MessageList
         messages={messages}
@@ -1,27 +1,41 @@
 import React from 'react';
-import { Settings, Loader2, Zap, ZapOff, Wifi, WifiOff, AlertTriangle } from 'lucide-react'; 
-import { WebSocketProxyStatus } from '../types';
+import { Settings, Loader2, Zap, ZapOff, Wifi, WifiOff, AlertTriangle, Activity, ScanSearch, Gauge, BarChart3, AppWindow, Hourglass } from 'lucide-react'; 
+import { WebSocketProxyStatus, WebSocketProxyStats, ProxyEndpointHealth, RateLimitBucketState, TabCoordinatorState } from '../types';
 
 interface HeaderProps {
   onClearChat: () => void;
   onOpenSettingsModal: () => void;
+  onOpenInspector: () => void;
+  onOpenUsage: () => void;
   isLoading: boolean; // General UI busy state
   currentModelName?: string;
   webSocketStatus: WebSocketProxyStatus;
   webSocketStatusDetails?: string;
+  webSocketStats: WebSocketProxyStats;
+  currentEndpoint?: ProxyEndpointHealth;
+  rateLimitBuckets: RateLimitBucketState[];
+  relayTab: TabCoordinatorState;
   onConnectWebSocket: () => void;
   onDisconnectWebSocket: () => void;
+  onDrainWebSocket: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
   onClearChat,
   onOpenSettingsModal,
+  onOpenInspector,
+  onOpenUsage,
   isLoading,
   currentModelName,
   webSocketStatus,
   webSocketStatusDetails,
+  webSocketStats,
+  currentEndpoint,
+  rateLimitBuckets,
+  relayTab,
   onConnectWebSocket,
   onDisconnectWebSocket,
+  onDrainWebSocket,
 }) => {
   const getWebSocketStatusIndicator = () => {
     let text = `WS: ${webSocketStatus}`;
@@ -54,6 +68,11 @@ export const Header: React.FC<HeaderProps> = ({
         className = 'bg-red-600 hover:bg-red-700 text-white';
         icon = <AlertTriangle size={16} className="mr-1.5" />;
         break;
+      case WebSocketProxyStatus.DRAINING:
+        text = `WS Proxy: Draining (${webSocketStats.inFlight + webSocketStats.queued} left)`;
+        className = 'bg-amber-500 hover:bg-amber-600 text-black';
+        icon = <Hourglass size={16} className="mr-1.5" />;
+        break;
       case WebSocketProxyStatus.IDLE:
         text = 'WS Proxy: Idle';
         className = 'bg-gray-600 hover:bg-gray-700 text-white';
@@ -63,12 +82,41 @@ export const Header: React.FC<HeaderProps> = ({
         text = `WS Proxy: ${webSocketStatus}`;
         className = 'bg-gray-500 text-white';
     }
+    if (webSocketStatus === WebSocketProxyStatus.CONNECTED && webSocketStats.latencyMs !== undefined) {
+      text = `${text} · ${webSocketStats.latencyMs}ms (avg ${webSocketStats.avgLatencyMs}ms)`;
+    }
+    if (webSocketStatus === WebSocketProxyStatus.CONNECTED && webSocketStats.compression) {
+      text = `${text} · ${webSocketStats.compression}${webSocketStats.compressionRatio ? ` ${webSocketStats.compressionRatio}x` : ''}`;
+    }
     return { text, className, icon, fullDetails: webSocketStatusDetails ? `${text} - ${webSocketStatusDetails}` : text };
   };
 
   const wsStatusIndicator = getWebSocketStatusIndicator();
   const isWsBusy = webSocketStatus === WebSocketProxyStatus.CONNECTING || webSocketStatus === WebSocketProxyStatus.RECONNECTING;
   const isWsConnected = webSocketStatus === WebSocketProxyStatus.CONNECTED;
+  const isWsDraining = webSocketStatus === WebSocketProxyStatus.DRAINING;
+  const showWsStats = isWsConnected || webSocketStats.inFlight > 0 || webSocketStats.queued > 0;
+
+  // The badge shows the emptiest bucket; the tooltip lists them all
+  const lowestBucket: RateLimitBucketState | undefined = rateLimitBuckets
+    .slice()
+    .sort((a, b) => a.tokens / a.capacity - b.tokens / b.capacity)[0];
+  const isRateLimited = rateLimitBuckets.some(bucket => bucket.waiting > 0 || bucket.tokens < 1);
+  const rateLimitDetails = rateLimitBuckets
+    .map(bucket => `${bucket.ruleId} (${bucket.key}): ${Math.floor(bucket.tokens)}/${bucket.capacity}${bucket.waiting > 0 ? `, ${bucket.waiting} waiting` : ''}${bucket.rejected > 0 ? `, ${bucket.rejected} rejected` : ''}`)
+    .join('\n');
+
+  const rejectedMessageDetails = Object.entries(webSocketStats.rejectedMessages ?? {})
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+
+  const getEndpointLabel = (url: string) => {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  };
 
   return (
     <header className="bg-gray-900 p-3 sm:p-4 shadow-lg flex items-center justify-between flex-wrap gap-3">
@@ -93,8 +141,49 @@ export const Header: React.FC<HeaderProps> = ({
             {wsStatusIndicator.icon}
             {wsStatusIndicator.text}
         </span>
+        <span
+          className={`flex items-center text-xs px-2 py-1 rounded-md whitespace-nowrap font-mono ${relayTab.isLeader ? 'bg-sky-800/80 text-sky-100' : 'bg-gray-700/80 text-gray-300'}`}
+          title={relayTab.isLeader
+            ? `This tab (${relayTab.tabId}) owns the relay connection; other open tabs mirror it.`
+            : relayTab.leaderId
+              ? `Tab ${relayTab.leaderId} owns the relay connection; this tab (${relayTab.tabId}) mirrors it and forwards connect/disconnect.`
+              : `No tab owns the relay connection yet; this tab (${relayTab.tabId}) is waiting to take over.`}
+          aria-label={relayTab.isLeader ? 'This tab is the active relay' : `Active relay: ${relayTab.leaderId ? `tab ${relayTab.leaderId}` : 'none'}`}
+        >
+          <AppWindow size={14} className="mr-1" />
+          {relayTab.isLeader ? 'Relay: this tab' : relayTab.leaderId ? `Relay: tab ${relayTab.leaderId}` : 'Relay: waiting'}
+        </span>
+        {currentEndpoint && (
+          <span
+            className="text-xs px-2 py-1 rounded-md whitespace-nowrap font-mono bg-gray-700/80 text-gray-300"
+            title={`Relay endpoint: ${currentEndpoint.url} (health ${currentEndpoint.score}/100${currentEndpoint.avgRttMs !== undefined ? `, ~${currentEndpoint.avgRttMs}ms` : ''})`}
+            aria-label={`Relay endpoint ${currentEndpoint.url}`}
+          >
+            {getEndpointLabel(currentEndpoint.url)}
+          </span>
+        )}
+        {showWsStats && (
+          <span
+            className={`flex items-center text-xs px-2 py-1 rounded-md whitespace-nowrap font-mono ${webSocketStats.queued > 0 ? 'bg-amber-700/80 text-amber-100' : 'bg-gray-700/80 text-gray-300'}`}
+            title={`Proxied requests: ${webSocketStats.inFlight} in flight, ${webSocketStats.queued} queued${rejectedMessageDetails ? `\nRejected server messages: ${rejectedMessageDetails}` : ''}`}
+            aria-label={`Proxied requests: ${webSocketStats.inFlight} in flight, ${webSocketStats.queued} queued`}
+          >
+            <Activity size={14} className="mr-1" />
+            {webSocketStats.inFlight} / Q{webSocketStats.queued}
+          </span>
+        )}
+        {lowestBucket && (
+          <span
+            className={`flex items-center text-xs px-2 py-1 rounded-md whitespace-nowrap font-mono ${isRateLimited ? 'bg-amber-700/80 text-amber-100' : 'bg-gray-700/80 text-gray-300'}`}
+            title={`Rate limit buckets:\n${rateLimitDetails}`}
+            aria-label={`Rate limit: ${lowestBucket.key} has ${Math.floor(lowestBucket.tokens)} of ${lowestBucket.capacity} requests available`}
+          >
+            <Gauge size={14} className="mr-1" />
+            {lowestBucket.key} {Math.floor(lowestBucket.tokens)}/{lowestBucket.capacity}
+          </span>
+        )}
 
-        {(!isWsConnected && !isWsBusy) && (
+        {(!isWsConnected && !isWsBusy && !isWsDraining) && (
           <button
             onClick={onConnectWebSocket}
             disabled={isLoading || isWsBusy} 
@@ -107,7 +196,20 @@ export const Header: React.FC<HeaderProps> = ({
           </button>
         )}
         
-        {(isWsConnected || isWsBusy) && (
+        {isWsConnected && (
+          <button
+            onClick={onDrainWebSocket}
+            disabled={isLoading}
+            className="p-2 sm:p-2.5 bg-amber-500 hover:bg-amber-600 text-black rounded-lg shadow transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400 focus:ring-opacity-50 flex items-center gap-1.5 px-3 disabled:opacity-60 disabled:cursor-not-allowed"
+            title="Finish in-flight requests, accept no new ones, then disconnect"
+            aria-label="Drain WebSocket Proxy"
+          >
+            <Hourglass size={18} />
+            <span className="text-xs sm:text-sm">Drain WS</span>
+          </button>
+        )}
+
+        {(isWsConnected || isWsBusy || isWsDraining) && (
           <button
             onClick={onDisconnectWebSocket}
             disabled={isLoading || webSocketStatus === WebSocketProxyStatus.CONNECTING} // Allow disconnect if reconnecting
@@ -121,6 +223,26 @@ export const Header: React.FC<HeaderProps> = ({
         )}
 
 
+        <button
+          onClick={onOpenInspector}
+          className="p-2 sm:p-2.5 bg-gray-700 hover:bg-gray-600 text-white rounded-lg shadow transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-opacity-50 flex items-center gap-1.5 px-3"
+          aria-label="Open Proxy Traffic Inspector"
+          title="Proxy Traffic Inspector"
+        >
+          <ScanSearch size={18} />
+          <span className="text-xs sm:text-sm">Inspector</span>
+        </button>
+
+        <button
+          onClick={onOpenUsage}
+          className="p-2 sm:p-2.5 bg-gray-700 hover:bg-gray-600 text-white rounded-lg shadow transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-opacity-50 flex items-center gap-1.5 px-3"
+          aria-label="Open Token Usage Dashboard"
+          title="Token Usage"
+        >
+          <BarChart3 size={18} />
+          <span className="text-xs sm:text-sm">Usage</span>
+        </button>
+
         <button
           onClick={onOpenSettingsModal}
           className="p-2 sm:p-2.5 bg-gray-700 hover:bg-gray-600 text-white rounded-lg shadow transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-opacity-50 flex items-center gap-1.5 px-3"
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { X, Download, Trash2, ArrowLeft, Database } from 'lucide-react';
+import { ProxyTrafficEntry, ProxyCacheStats } from '../types';
+import { PROXY_CACHE_HEADER } from '../constants';
+
+interface ProxyInspectorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: ProxyTrafficEntry[];
+  onClear: () => void;
+  onExportHar: () => void;
+  cacheStats: ProxyCacheStats | null; // null while the response cache is disabled
+  onPurgeCache: () => void;
+  relayTabId: string | null; // Set in follower tabs: traffic is captured in the tab owning the relay
+}
+
+const formatMs = (ms?: number) => (ms === undefined ? '—' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getStatusStyle = (entry: ProxyTrafficEntry) => {
+  if (entry.state === 'error') return 'text-red-400';
+  if (entry.state === 'pending') return 'text-yellow-400';
+  if (entry.status && entry.status >= 400) return 'text-orange-400';
+  return 'text-green-400';
+};
+
+const getCacheResult = (entry: ProxyTrafficEntry) => entry.responseHeaders?.[PROXY_CACHE_HEADER];
+
+const HeaderTable: React.FC<{ headers?: Record<string, string> }> = ({ headers }) => {
+  const rows = Object.entries(headers || {});
+  if (rows.length === 0) return <p className="text-xs text-gray-500">No headers.</p>;
+  return (
+    <table className="w-full text-xs font-mono">
+      <tbody>
+        {rows.map(([name, value]) => (
+          <tr key={name} className="align-top">
+            <td className="pr-3 py-0.5 text-sky-300 whitespace-nowrap">{name}</td>
+            <td className="py-0.5 text-gray-200 break-all">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const BodyView: React.FC<{ body?: string; encoding?: string; truncated?: boolean }> = ({ body, encoding, truncated }) => {
+  if (!body) return <p className="text-xs text-gray-500">No body.</p>;
+  return (
+    <>
+      {encoding === 'base64' && <p className="text-xs text-gray-400 mb-1">Binary body, shown base64 encoded.</p>}
+      <pre className="max-h-64 overflow-auto text-xs font-mono bg-gray-900/60 border border-gray-700 rounded-md p-2 text-gray-200 whitespace-pre-wrap break-all">{body}</pre>
+      {truncated && <p className="text-xs text-gray-400 mt-1">Truncated.</p>}
+    </>
+  );
+};
+
+const EntryDetails: React.FC<{ entry: ProxyTrafficEntry }> = ({ entry }) => (
+  <div className="space-y-4">
+    <div className="text-sm font-mono break-all">
+      <span className="text-sky-400 mr-2">{entry.method}</span>
+      <span className="text-gray-200">{entry.url}</span>
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+      <div><span className="text-gray-400">Status </span><span className={getStatusStyle(entry)}>{entry.status ?? entry.state}</span></div>
+      <div><span className="text-gray-400">TTFB </span>{formatMs(entry.timeToFirstByteMs)}</div>
+      <div><span className="text-gray-400">Duration </span>{formatMs(entry.durationMs)}</div>
+      <div><span className="text-gray-400">Size </span>{formatBytes(entry.bytes)} / {entry.chunkCount} chunks</div>
+    </div>
+    {entry.errorCode && (
+      <div className="text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">
+        <span className="font-semibold">{entry.errorCode}</span>: {entry.errorMessage}
+      </div>
+    )}
+    <section>
+      <h4 className="text-xs font-semibold text-gray-300 mb-1">Request headers</h4>
+      <HeaderTable headers={entry.requestHeaders} />
+    </section>
+    <section>
+      <h4 className="text-xs font-semibold text-gray-300 mb-1">Request body</h4>
+      <BodyView body={entry.requestBody} encoding={entry.requestBodyEncoding} truncated={entry.requestBodyTruncated} />
+    </section>
+    <section>
+      <h4 className="text-xs font-semibold text-gray-300 mb-1">Response headers</h4>
+      <HeaderTable headers={entry.responseHeaders} />
+    </section>
+    <section>
+      <h4 className="text-xs font-semibold text-gray-300 mb-1">Response body</h4>
+      <BodyView body={entry.responseBody} encoding={entry.responseBodyEncoding} truncated={entry.responseBodyTruncated} />
+    </section>
+  </div>
+);
+
+export const ProxyInspectorModal: React.FC<ProxyInspectorModalProps> = ({
+  isOpen,
+  onClose,
+  entries,
+  onClear,
+  onExportHar,
+  cacheStats,
+  onPurgeCache,
+  relayTabId,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const selectedEntry = selectedId ? entries.find(entry => entry.id === selectedId) : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="inspector-title">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-5xl">
+        <div className="flex justify-between items-center mb-4 gap-3">
+          <h2 id="inspector-title" className="text-xl font-semibold text-sky-400">Proxy Traffic Inspector</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onExportHar}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 bg-sky-600 hover:bg-sky-700 text-white rounded-md text-xs sm:text-sm flex items-center gap-1.5 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              title="Export session as HAR 1.2"
+            >
+              <Download size={16} />
+              Export HAR
+            </button>
+            <button
+              onClick={() => { setSelectedId(null); onClear(); }}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-gray-100 rounded-md text-xs sm:text-sm flex items-center gap-1.5 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              title="Clear captured traffic"
+            >
+              <Trash2 size={16} />
+              Clear
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-200 transition-colors"
+              aria-label="Close inspector"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        {cacheStats && (
+          <div className="mb-3 flex items-center justify-between text-xs text-gray-300 bg-gray-900/40 border border-gray-700 rounded-md px-3 py-2">
+            <span className="flex items-center gap-1.5">
+              <Database size={14} className="text-sky-400" />
+              Cache: {cacheStats.hits} hits / {cacheStats.misses} misses
+              {cacheStats.hitRate !== undefined && ` (${Math.round(cacheStats.hitRate * 100)}% hit rate)`}
+              {` · ${cacheStats.entries} stored`}
+            </span>
+            <button
+              onClick={onPurgeCache}
+              className="px-2 py-1 bg-gray-600 hover:bg-gray-500 text-gray-100 rounded-md transition-colors"
+              title="Drop all cached responses and reset the counters"
+            >
+              Purge cache
+            </button>
+          </div>
+        )}
+
+        <div className="max-h-[70vh] overflow-y-auto pr-2 -mr-2">
+          {selectedEntry ? (
+            <>
+              <button
+                onClick={() => setSelectedId(null)}
+                className="mb-3 text-xs text-gray-400 hover:text-gray-200 flex items-center gap-1 transition-colors"
+              >
+                <ArrowLeft size={14} />
+                Back to all requests
+              </button>
+              <EntryDetails entry={selectedEntry} />
+            </>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 p-4 text-center">
+              {relayTabId ? `Requests are captured in the tab that owns the relay connection (tab ${relayTabId}).` : 'No proxied requests captured yet.'}
+            </p>
+          ) : (
+            <table className="w-full text-xs font-mono">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="py-1 pr-2 font-medium">Method</th>
+                  <th className="py-1 pr-2 font-medium">URL</th>
+                  <th className="py-1 pr-2 font-medium">Status</th>
+                  <th className="py-1 pr-2 font-medium text-right">TTFB</th>
+                  <th className="py-1 pr-2 font-medium text-right">Duration</th>
+                  <th className="py-1 pr-2 font-medium text-right">Bytes</th>
+                  <th className="py-1 font-medium text-right">Chunks</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {entries.slice().reverse().map(entry => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setSelectedId(entry.id)}
+                    className="cursor-pointer hover:bg-gray-700/60"
+                    title={entry.url}
+                  >
+                    <td className="py-1 pr-2 text-sky-300">{entry.method}</td>
+                    <td className="py-1 pr-2 text-gray-200 max-w-xs truncate">{entry.url}</td>
+                    <td className={`py-1 pr-2 ${getStatusStyle(entry)}`}>
+                      {entry.errorCode || entry.status || entry.state}
+                      {getCacheResult(entry) === 'HIT' && <span className="ml-1 text-sky-300">(cached)</span>}
+                    </td>
+                    <td className="py-1 pr-2 text-right">{formatMs(entry.timeToFirstByteMs)}</td>
+                    <td className="py-1 pr-2 text-right">{formatMs(entry.durationMs)}</td>
+                    <td className="py-1 pr-2 text-right">{formatBytes(entry.bytes)}</td>
+                    <td className="py-1 text-right">{entry.chunkCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
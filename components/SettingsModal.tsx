@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { ModelOption, ChatSettings } from '../types';
-import { Loader2, X, Info } from 'lucide-react'; // Added Info icon
-import { DEFAULT_TEMPERATURE, DEFAULT_TOP_P, DEFAULT_SHOW_THOUGHTS, DEFAULT_MODEL_ID, DEFAULT_SYSTEM_INSTRUCTION } from '../constants';
+import { ModelOption, ChatSettings, ProxyPolicy, ProxyPolicyAction, ProxyPolicyDecision, ProxyRewriteRule, ProxyEndpointState, ProxyCacheConfig, RateLimitConfig } from '../types';
+import { Loader2, X, Info, ShieldCheck, ShieldX } from 'lucide-react'; // Added Info icon
+import { DEFAULT_TEMPERATURE, DEFAULT_TOP_P, DEFAULT_SHOW_THOUGHTS, DEFAULT_MODEL_ID, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_PROXY_POLICY, DEFAULT_PROXY_REWRITE_RULES, PROXY_API_KEY_SECRET, DEFAULT_PROXY_CACHE_CONFIG, DEFAULT_RATE_LIMIT_CONFIG } from '../constants';
+import { parseProxyPolicy } from '../services/proxyPolicy';
+import { parseRewriteRules } from '../services/proxyRewrite';
+import { parseCacheConfig } from '../services/proxyCache';
+import { parseRateLimitConfig } from '../services/rateLimiter';
+import { parseEndpointList } from '../services/proxyEndpoints';
+import { getTokenExpiry } from '../services/proxyAuth';
 
 
 interface SettingsModalProps {
@@ -13,8 +19,36 @@ interface SettingsModalProps {
   onSave: (newSettings: ChatSettings) => void;
   isModelsLoading: boolean;
   modelsLoadingError: string | null;
+  currentProxyPolicy: ProxyPolicy;
+  onSaveProxyPolicy: (policy: ProxyPolicy) => void;
+  policyAuditLog: ProxyPolicyDecision[];
+  onClearPolicyAudit: () => void;
+  currentRewriteRules: ProxyRewriteRule[];
+  currentProxyApiKey: string;
+  onSaveProxyRewrite: (rules: ProxyRewriteRule[], apiKey: string) => void;
+  endpointState: ProxyEndpointState;
+  onSaveEndpoints: (urls: string[]) => void;
+  currentProxyToken: string;
+  onSaveProxyToken: (token: string) => void;
+  currentCacheConfig: ProxyCacheConfig;
+  onSaveCacheConfig: (config: ProxyCacheConfig) => void;
+  currentRateLimitConfig: RateLimitConfig;
+  onSaveRateLimitConfig: (config: RateLimitConfig) => void;
 }
 
+const describeTokenExpiry = (token: string) => {
+  if (!token.trim()) return 'No token set.';
+  const expiry = getTokenExpiry(token.trim());
+  if (expiry === null) return 'Token has no expiry claim.';
+  const expiryText = new Date(expiry).toLocaleString();
+  return expiry <= Date.now() ? `Expired at ${expiryText}.` : `Expires at ${expiryText}.`;
+};
+
+const formatPolicyRules = (policy: ProxyPolicy) => JSON.stringify(policy.rules, null, 2);
+
+// Parsed settings come out in the same shape the managers store, so JSON tells them apart
+const hasChanged = (saved: unknown, current: unknown) => JSON.stringify(saved) !== JSON.stringify(current);
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
@@ -22,13 +56,43 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   availableModels,
   onSave,
   isModelsLoading,
-  modelsLoadingError
+  modelsLoadingError,
+  currentProxyPolicy,
+  onSaveProxyPolicy,
+  policyAuditLog,
+  onClearPolicyAudit,
+  currentRewriteRules,
+  currentProxyApiKey,
+  onSaveProxyRewrite,
+  endpointState,
+  onSaveEndpoints,
+  currentProxyToken,
+  onSaveProxyToken,
+  currentCacheConfig,
+  onSaveCacheConfig,
+  currentRateLimitConfig,
+  onSaveRateLimitConfig
 }) => {
   const [modelId, setModelId] = useState(currentSettings.modelId);
   const [temperature, setTemperature] = useState(currentSettings.temperature);
   const [topP, setTopP] = useState(currentSettings.topP);
   const [showThoughts, setShowThoughts] = useState(currentSettings.showThoughts);
   const [systemInstruction, setSystemInstructionLocal] = useState(currentSettings.systemInstruction); // Local state for system instruction
+  const [policyDefaultAction, setPolicyDefaultAction] = useState<ProxyPolicyAction>(currentProxyPolicy.defaultAction);
+  const [policyRulesText, setPolicyRulesText] = useState(formatPolicyRules(currentProxyPolicy));
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [rewriteRulesText, setRewriteRulesText] = useState(JSON.stringify(currentRewriteRules, null, 2));
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+  const [proxyApiKey, setProxyApiKey] = useState(currentProxyApiKey);
+  const [endpointsText, setEndpointsText] = useState(endpointState.endpoints.map(endpoint => endpoint.url).join('\n'));
+  const [endpointsError, setEndpointsError] = useState<string | null>(null);
+  const [proxyToken, setProxyToken] = useState(currentProxyToken);
+  const [cacheEnabled, setCacheEnabled] = useState(currentCacheConfig.enabled);
+  const [cacheRulesText, setCacheRulesText] = useState(JSON.stringify(currentCacheConfig.rules, null, 2));
+  const [cacheError, setCacheError] = useState<string | null>(null);
+  const [rateLimitEnabled, setRateLimitEnabled] = useState(currentRateLimitConfig.enabled);
+  const [rateLimitBucketsText, setRateLimitBucketsText] = useState(JSON.stringify(currentRateLimitConfig.buckets, null, 2));
+  const [rateLimitError, setRateLimitError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -37,12 +101,82 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       setTopP(currentSettings.topP ?? DEFAULT_TOP_P);
       setShowThoughts(currentSettings.showThoughts ?? DEFAULT_SHOW_THOUGHTS);
       setSystemInstructionLocal(currentSettings.systemInstruction ?? DEFAULT_SYSTEM_INSTRUCTION);
+      setPolicyDefaultAction(currentProxyPolicy.defaultAction);
+      setPolicyRulesText(formatPolicyRules(currentProxyPolicy));
+      setPolicyError(null);
+      setRewriteRulesText(JSON.stringify(currentRewriteRules, null, 2));
+      setRewriteError(null);
+      setProxyApiKey(currentProxyApiKey);
+      setEndpointsText(endpointState.endpoints.map(endpoint => endpoint.url).join('\n'));
+      setEndpointsError(null);
+      setProxyToken(currentProxyToken);
+      setCacheEnabled(currentCacheConfig.enabled);
+      setCacheRulesText(JSON.stringify(currentCacheConfig.rules, null, 2));
+      setCacheError(null);
+      setRateLimitEnabled(currentRateLimitConfig.enabled);
+      setRateLimitBucketsText(JSON.stringify(currentRateLimitConfig.buckets, null, 2));
+      setRateLimitError(null);
     }
-  }, [currentSettings, isOpen]);
+    // endpointState changes with every health update; only reset the text when the modal opens
+  }, [currentSettings, currentProxyPolicy, currentRewriteRules, currentProxyApiKey, currentProxyToken, currentCacheConfig, currentRateLimitConfig, isOpen]);
 
   if (!isOpen) return null;
 
   const handleSave = () => {
+    let policy: ProxyPolicy;
+    try {
+      policy = parseProxyPolicy({ defaultAction: policyDefaultAction, rules: JSON.parse(policyRulesText) });
+    } catch (error) {
+      setPolicyError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    let rewriteRules: ProxyRewriteRule[];
+    try {
+      rewriteRules = parseRewriteRules(rewriteRulesText);
+    } catch (error) {
+      setRewriteError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    let endpointUrls: string[];
+    try {
+      endpointUrls = parseEndpointList(endpointsText);
+    } catch (error) {
+      setEndpointsError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    let cacheConfig: ProxyCacheConfig;
+    try {
+      cacheConfig = parseCacheConfig({ enabled: cacheEnabled, rules: JSON.parse(cacheRulesText) });
+    } catch (error) {
+      setCacheError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    let rateLimitConfig: RateLimitConfig;
+    try {
+      rateLimitConfig = parseRateLimitConfig({ enabled: rateLimitEnabled, buckets: JSON.parse(rateLimitBucketsText) });
+    } catch (error) {
+      setRateLimitError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    // Saving a section resets its state (cache entries, rate limit buckets), so only save what changed
+    if (hasChanged(policy, currentProxyPolicy)) {
+      onSaveProxyPolicy(policy);
+    }
+    if (hasChanged(cacheConfig, currentCacheConfig)) {
+      onSaveCacheConfig(cacheConfig);
+    }
+    if (hasChanged(rateLimitConfig, currentRateLimitConfig)) {
+      onSaveRateLimitConfig(rateLimitConfig);
+    }
+    if (hasChanged(rewriteRules, currentRewriteRules) || proxyApiKey.trim() !== currentProxyApiKey) {
+      onSaveProxyRewrite(rewriteRules, proxyApiKey.trim());
+    }
+    if (hasChanged(endpointUrls, endpointState.endpoints.map(endpoint => endpoint.url))) {
+      onSaveEndpoints(endpointUrls);
+    }
+    if (proxyToken.trim() !== currentProxyToken) {
+      onSaveProxyToken(proxyToken.trim());
+    }
     onSave({ modelId, temperature, topP, showThoughts, systemInstruction });
   };
   
@@ -52,6 +186,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     setTopP(DEFAULT_TOP_P);
     setShowThoughts(DEFAULT_SHOW_THOUGHTS);
     setSystemInstructionLocal(DEFAULT_SYSTEM_INSTRUCTION);
+    setPolicyDefaultAction(DEFAULT_PROXY_POLICY.defaultAction);
+    setPolicyRulesText(formatPolicyRules(DEFAULT_PROXY_POLICY));
+    setPolicyError(null);
+    setRewriteRulesText(JSON.stringify(DEFAULT_PROXY_REWRITE_RULES, null, 2));
+    setRewriteError(null);
+    setCacheEnabled(DEFAULT_PROXY_CACHE_CONFIG.enabled);
+    setCacheRulesText(JSON.stringify(DEFAULT_PROXY_CACHE_CONFIG.rules, null, 2));
+    setCacheError(null);
+    setRateLimitEnabled(DEFAULT_RATE_LIMIT_CONFIG.enabled);
+    setRateLimitBucketsText(JSON.stringify(DEFAULT_RATE_LIMIT_CONFIG.buckets, null, 2));
+    setRateLimitError(null);
   };
   
   const isSystemPromptSet = systemInstruction && systemInstruction.trim() !== "";
@@ -182,6 +327,212 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               Show Assistant's Thoughts
             </label>
           </div>
+
+          {/* WebSocket Proxy Endpoints */}
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-sky-400 mb-3">WebSocket Proxy Endpoints</h3>
+            <label htmlFor="proxy-token-input" className="block text-sm font-medium text-gray-300 mb-1">Relay token (JWT)</label>
+            <input
+              id="proxy-token-input"
+              type="password"
+              value={proxyToken}
+              onChange={(e) => setProxyToken(e.target.value)}
+              autoComplete="off"
+              className="w-full p-2.5 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 text-sm font-mono mb-1"
+              placeholder="Stored in this browser only"
+            />
+            <p className="mb-3 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {describeTokenExpiry(proxyToken)}
+            </p>
+            <label htmlFor="endpoints-input" className="block text-sm font-medium text-gray-300 mb-1">Relay URLs (one per line, in failover order)</label>
+            <textarea
+              id="endpoints-input"
+              value={endpointsText}
+              onChange={(e) => { setEndpointsText(e.target.value); setEndpointsError(null); }}
+              rows={3}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="WebSocket proxy endpoint URLs"
+            />
+            {endpointsError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{endpointsError}</div>
+            )}
+            <ul className="mt-2 bg-gray-900/60 border border-gray-700 rounded-md text-xs font-mono divide-y divide-gray-800" aria-label="Endpoint health">
+              {endpointState.endpoints.map(endpoint => (
+                <li key={endpoint.url} className="p-2 flex items-center justify-between gap-2">
+                  <span className={`break-all ${endpoint.url === endpointState.currentUrl ? 'text-sky-300' : 'text-gray-300'}`}>
+                    {endpoint.url === endpointState.currentUrl ? '● ' : ''}{endpoint.url}
+                  </span>
+                  <span className="text-gray-400 whitespace-nowrap" title={`${endpoint.totalConnects} connects, ${endpoint.totalFailures} failures`}>
+                    {endpoint.score}/100{endpoint.avgRttMs !== undefined ? ` · ${endpoint.avgRttMs}ms` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* WebSocket Proxy Policy */}
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-sky-400 mb-3">WebSocket Proxy Policy</h3>
+            <label htmlFor="policy-default-action" className="block text-sm font-medium text-gray-300 mb-1">When no rule matches</label>
+            <select
+              id="policy-default-action"
+              value={policyDefaultAction}
+              onChange={(e) => setPolicyDefaultAction(e.target.value as ProxyPolicyAction)}
+              className="bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 mb-3"
+            >
+              <option value="deny">Deny</option>
+              <option value="allow">Allow</option>
+            </select>
+            <label htmlFor="policy-rules-input" className="block text-sm font-medium text-gray-300 mb-1">Rules (first match wins)</label>
+            <textarea
+              id="policy-rules-input"
+              value={policyRulesText}
+              onChange={(e) => { setPolicyRulesText(e.target.value); setPolicyError(null); }}
+              rows={6}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="Proxy policy rules as JSON"
+            />
+            {policyError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{policyError}</div>
+            )}
+            <p className="mt-1 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {'Each rule: {"action": "allow" | "deny", "host": "*.example.com", "pathPrefix": "/v1beta/", "methods": ["GET"]}. Denied requests never reach the network.'}
+            </p>
+
+            <div className="flex justify-between items-center mt-4 mb-1">
+              <span className="text-sm font-medium text-gray-300">Audit log ({policyAuditLog.length})</span>
+              <button
+                onClick={onClearPolicyAudit}
+                type="button"
+                className="text-xs text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-50"
+                disabled={policyAuditLog.length === 0}
+              >
+                Clear
+              </button>
+            </div>
+            <ul className="max-h-40 overflow-y-auto bg-gray-900/60 border border-gray-700 rounded-md text-xs font-mono divide-y divide-gray-800" aria-label="Proxy policy decisions">
+              {policyAuditLog.length === 0 && (
+                <li className="p-2 text-gray-500">No proxied requests evaluated yet.</li>
+              )}
+              {policyAuditLog.map((decision, index) => (
+                <li key={`${decision.requestId}-${index}`} className="p-2 flex items-start gap-2" title={decision.reason}>
+                  {decision.allowed
+                    ? <ShieldCheck size={14} className="flex-shrink-0 text-green-400" aria-label="Allowed" />
+                    : <ShieldX size={14} className="flex-shrink-0 text-red-400" aria-label="Denied" />}
+                  <span className="text-gray-500">{decision.timestamp.toLocaleTimeString()}</span>
+                  <span className="text-gray-200 break-all">{decision.method} {decision.url}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* WebSocket Proxy Rewrite Rules */}
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-sky-400 mb-3">WebSocket Proxy Rewrite Rules</h3>
+            <label htmlFor="proxy-api-key-input" className="block text-sm font-medium text-gray-300 mb-1">Local API key</label>
+            <input
+              id="proxy-api-key-input"
+              type="password"
+              value={proxyApiKey}
+              onChange={(e) => setProxyApiKey(e.target.value)}
+              autoComplete="off"
+              className="w-full p-2.5 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 text-sm font-mono mb-1"
+              placeholder="Stored in this browser only"
+            />
+            <p className="mb-3 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {`Reference it in a rule value as {{secret:${PROXY_API_KEY_SECRET}}}, e.g. to set the x-goog-api-key header so the server never sees the key.`}
+            </p>
+            <label htmlFor="rewrite-rules-input" className="block text-sm font-medium text-gray-300 mb-1">Rules (applied in order)</label>
+            <textarea
+              id="rewrite-rules-input"
+              value={rewriteRulesText}
+              onChange={(e) => { setRewriteRulesText(e.target.value); setRewriteError(null); }}
+              rows={8}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="Proxy rewrite rules as JSON"
+            />
+            {rewriteError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{rewriteError}</div>
+            )}
+            <p className="mt-1 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {'Actions: {"target": "requestHeader" | "queryParam" | "responseHeader", "op": "add" | "replace" | "set" | "remove", "name": "...", "value": "..."}.'}
+            </p>
+          </div>
+
+          {/* WebSocket Proxy Response Cache */}
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-sky-400 mb-3">WebSocket Proxy Response Cache</h3>
+            <div className="flex items-center mb-3">
+              <input
+                id="cache-enabled"
+                type="checkbox"
+                checked={cacheEnabled}
+                onChange={(e) => setCacheEnabled(e.target.checked)}
+                className="h-4 w-4 text-sky-600 bg-gray-700 border-gray-600 rounded focus:ring-sky-500 focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800"
+              />
+              <label htmlFor="cache-enabled" className="ml-2 text-sm text-gray-300">
+                Answer matching GET requests from a local cache
+              </label>
+            </div>
+            <label htmlFor="cache-rules-input" className="block text-sm font-medium text-gray-300 mb-1">Cache rules (first match wins)</label>
+            <textarea
+              id="cache-rules-input"
+              value={cacheRulesText}
+              onChange={(e) => { setCacheRulesText(e.target.value); setCacheError(null); }}
+              rows={8}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="Proxy cache rules as JSON"
+            />
+            {cacheError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{cacheError}</div>
+            )}
+            <p className="mt-1 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {'Rule: {"id": "...", "urlPattern": "regex on origin + path", "ttlSeconds": 300, "methods": ["GET"], "varyHeaders": ["authorization"]}. A lower Cache-Control max-age wins; no-store responses are never cached.'}
+            </p>
+          </div>
+
+          {/* Rate Limits */}
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-sky-400 mb-3">Rate Limits</h3>
+            <div className="flex items-center mb-3">
+              <input
+                id="rate-limit-enabled"
+                type="checkbox"
+                checked={rateLimitEnabled}
+                onChange={(e) => setRateLimitEnabled(e.target.checked)}
+                className="h-4 w-4 text-sky-600 bg-gray-700 border-gray-600 rounded focus:ring-sky-500 focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800"
+              />
+              <label htmlFor="rate-limit-enabled" className="ml-2 text-sm text-gray-300">
+                Pace chat and proxied requests with token buckets
+              </label>
+            </div>
+            <label htmlFor="rate-limit-buckets-input" className="block text-sm font-medium text-gray-300 mb-1">Buckets (every matching bucket applies)</label>
+            <textarea
+              id="rate-limit-buckets-input"
+              value={rateLimitBucketsText}
+              onChange={(e) => { setRateLimitBucketsText(e.target.value); setRateLimitError(null); }}
+              rows={8}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="Rate limit buckets as JSON"
+            />
+            {rateLimitError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{rateLimitError}</div>
+            )}
+            <p className="mt-1 text-xs text-gray-400 flex items-start">
+              <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+              {'Bucket: {"id": "...", "scope": "host" | "model", "match": "*.example.com" | "gemini-2.5-*", "capacity": 10, "refillPerMinute": 10, "mode": "delay" | "reject", "maxDelayMs": 60000}. Rejected requests fail with RATE_LIMITED.'}
+            </p>
+          </div>
         </div>
 
         <div className="mt-8 flex flex-col sm:flex-row justify-between items-center gap-3 pt-4 border-t border-gray-700">
@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, Trash2, Info } from 'lucide-react';
+import { UsageLedgerEntry, ModelPrice } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { parsePriceTable } from '../services/usageLedger';
+
+interface UsageDashboardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: UsageLedgerEntry[];
+  prices: ModelPrice[];
+  estimateCost: (entry: UsageLedgerEntry) => number | null;
+  onSavePrices: (prices: ModelPrice[]) => void;
+  onExportCsv: () => void;
+  onClear: () => void;
+}
+
+interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  cachedTokens: number;
+  cost: number;
+  unpriced: boolean; // Some entries had no matching price
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatCost = (totals: Pick<UsageTotals, 'cost' | 'unpriced'>) =>
+  `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}${totals.unpriced ? '*' : ''}`;
+
+export const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({
+  isOpen,
+  onClose,
+  entries,
+  prices,
+  estimateCost,
+  onSavePrices,
+  onExportCsv,
+  onClear,
+}) => {
+  const [pricesText, setPricesText] = useState(JSON.stringify(prices, null, 2));
+  const [pricesError, setPricesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPricesText(JSON.stringify(prices, null, 2));
+      setPricesError(null);
+    }
+  }, [prices, isOpen]);
+
+  if (!isOpen) return null;
+
+  const sumEntries = (group: UsageLedgerEntry[]): UsageTotals => group.reduce((totals, entry) => {
+    const cost = estimateCost(entry);
+    return {
+      requests: totals.requests + entry.requests,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      candidatesTokens: totals.candidatesTokens + entry.candidatesTokens,
+      thoughtsTokens: totals.thoughtsTokens + entry.thoughtsTokens,
+      cachedTokens: totals.cachedTokens + entry.cachedTokens,
+      cost: totals.cost + (cost ?? 0),
+      unpriced: totals.unpriced || cost === null,
+    };
+  }, { requests: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, cachedTokens: 0, cost: 0, unpriced: false });
+
+  const models = Array.from(new Set(entries.map(entry => entry.model))).sort();
+  const byModel = models.map(model => ({ model, totals: sumEntries(entries.filter(entry => entry.model === model)) }));
+  const overall = sumEntries(entries);
+  const rows = entries.slice().sort((a, b) => b.day.localeCompare(a.day) || a.model.localeCompare(b.model) || a.source.localeCompare(b.source));
+
+  const handleSavePrices = () => {
+    try {
+      onSavePrices(parsePriceTable(pricesText));
+      setPricesError(null);
+    } catch (error) {
+      setPricesError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="usage-title">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-5xl">
+        <div className="flex justify-between items-center mb-4 gap-3">
+          <h2 id="usage-title" className="text-xl font-semibold text-sky-400">Token Usage</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onExportCsv}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 bg-sky-600 hover:bg-sky-700 text-white rounded-md text-xs sm:text-sm flex items-center gap-1.5 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              title="Export the ledger as CSV"
+            >
+              <Download size={16} />
+              Export CSV
+            </button>
+            <button
+              onClick={onClear}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-gray-100 rounded-md text-xs sm:text-sm flex items-center gap-1.5 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              title="Delete all recorded usage"
+            >
+              <Trash2 size={16} />
+              Clear
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-200 transition-colors"
+              aria-label="Close usage dashboard"
+            >
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="max-h-[75vh] overflow-y-auto pr-2 -mr-2 space-y-6">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 p-4 text-center">No token usage recorded yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                <div className="bg-gray-900/40 border border-gray-700 rounded-md px-3 py-2"><span className="text-gray-400">Requests </span>{overall.requests}</div>
+                <div className="bg-gray-900/40 border border-gray-700 rounded-md px-3 py-2"><span className="text-gray-400">Prompt </span>{formatTokens(overall.promptTokens)}</div>
+                <div className="bg-gray-900/40 border border-gray-700 rounded-md px-3 py-2"><span className="text-gray-400">Output </span>{formatTokens(overall.candidatesTokens + overall.thoughtsTokens)}</div>
+                <div className="bg-gray-900/40 border border-gray-700 rounded-md px-3 py-2"><span className="text-gray-400">Est. cost </span>{formatCost(overall)}</div>
+              </div>
+
+              <section>
+                <h3 className="text-sm font-semibold text-gray-300 mb-2">By model</h3>
+                <table className="w-full text-xs font-mono">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Model</th>
+                      <th className="py-1 pr-2 font-medium text-right">Requests</th>
+                      <th className="py-1 pr-2 font-medium text-right">Prompt</th>
+                      <th className="py-1 pr-2 font-medium text-right">Candidates</th>
+                      <th className="py-1 pr-2 font-medium text-right">Thoughts</th>
+                      <th className="py-1 pr-2 font-medium text-right">Cached</th>
+                      <th className="py-1 font-medium text-right">Est. cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {byModel.map(({ model, totals }) => (
+                      <tr key={model}>
+                        <td className="py-1 pr-2 text-sky-300">{model}</td>
+                        <td className="py-1 pr-2 text-right">{totals.requests}</td>
+                        <td className="py-1 pr-2 text-right">{formatTokens(totals.promptTokens)}</td>
+                        <td className="py-1 pr-2 text-right">{formatTokens(totals.candidatesTokens)}</td>
+                        <td className="py-1 pr-2 text-right">{formatTokens(totals.thoughtsTokens)}</td>
+                        <td className="py-1 pr-2 text-right">{formatTokens(totals.cachedTokens)}</td>
+                        <td className="py-1 text-right">{formatCost(totals)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-gray-300 mb-2">By day and source</h3>
+                <table className="w-full text-xs font-mono">
+                  <thead className="text-gray-400 text-left">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Day</th>
+                      <th className="py-1 pr-2 font-medium">Model</th>
+                      <th className="py-1 pr-2 font-medium">Source</th>
+                      <th className="py-1 pr-2 font-medium text-right">Requests</th>
+                      <th className="py-1 pr-2 font-medium text-right">Prompt</th>
+                      <th className="py-1 pr-2 font-medium text-right">Output</th>
+                      <th className="py-1 font-medium text-right">Est. cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {rows.map(entry => {
+                      const cost = estimateCost(entry);
+                      return (
+                        <tr key={`${entry.day}|${entry.model}|${entry.source}`}>
+                          <td className="py-1 pr-2 text-gray-300">{entry.day}</td>
+                          <td className="py-1 pr-2 text-sky-300">{entry.model}</td>
+                          <td className="py-1 pr-2">{entry.source === 'proxy' ? 'Relay' : 'Chat'}</td>
+                          <td className="py-1 pr-2 text-right">{entry.requests}</td>
+                          <td className="py-1 pr-2 text-right">{formatTokens(entry.promptTokens)}</td>
+                          <td className="py-1 pr-2 text-right">{formatTokens(entry.candidatesTokens + entry.thoughtsTokens)}</td>
+                          <td className="py-1 text-right">{cost === null ? '—' : formatCost({ cost, unpriced: false })}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {overall.unpriced && <p className="mt-1 text-xs text-gray-400">* Some models have no price; their usage is not included in the cost.</p>}
+              </section>
+            </>
+          )}
+
+          <section className="pt-4 border-t border-gray-700">
+            <label htmlFor="usage-prices-input" className="block text-sm font-semibold text-gray-300 mb-1">Price table (USD per million tokens, first match wins)</label>
+            <textarea
+              id="usage-prices-input"
+              value={pricesText}
+              onChange={(e) => { setPricesText(e.target.value); setPricesError(null); }}
+              rows={8}
+              spellCheck={false}
+              className="w-full p-3 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-100 resize-y text-xs font-mono"
+              aria-label="Model prices as JSON"
+            />
+            {pricesError && (
+              <div className="mt-1 text-xs text-red-400 p-2 bg-red-900/50 border border-red-700 rounded-md">{pricesError}</div>
+            )}
+            <div className="mt-2 flex items-start justify-between gap-3">
+              <p className="text-xs text-gray-400 flex items-start">
+                <Info size={12} className="mr-1 mt-0.5 flex-shrink-0 text-sky-400" />
+                {'Price: {"model": "gemini-2.5-flash*", "inputPerMillion": 0.3, "outputPerMillion": 2.5, "cachedInputPerMillion": 0.075}. Thought tokens are billed as output.'}
+              </p>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => { setPricesText(JSON.stringify(DEFAULT_MODEL_PRICES, null, 2)); setPricesError(null); }}
+                  type="button"
+                  className="px-3 py-1.5 text-xs border border-gray-600 hover:border-gray-500 text-gray-300 hover:text-gray-100 rounded-md transition-colors"
+                >
+                  Reset prices
+                </button>
+                <button
+                  onClick={handleSavePrices}
+                  type="button"
+                  className="px-3 py-1.5 text-xs bg-sky-600 hover:bg-sky-700 text-white rounded-md transition-colors"
+                >
+                  Save prices
+                </button>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
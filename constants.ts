@@ -1,4 +1,4 @@
-import { ModelOption } from './types';
+import { ModelOption, ProxyPolicy, ProxyRewriteRule, ProxyRequestTimingConfig, ProxyCacheConfig, RateLimitConfig, ModelPrice } from './types';
 
 // AVAILABLE_MODELS is removed as models will be fetched dynamically.
 
@@ -7,4 +7,89 @@ export const DEFAULT_SYSTEM_INSTRUCTION = "";
 
 export const DEFAULT_TEMPERATURE = 0.7;
 export const DEFAULT_TOP_P = 0.95;
-export const DEFAULT_SHOW_THOUGHTS = true;
\ No newline at end of file
+export const DEFAULT_SHOW_THOUGHTS = true;
+
+// WebSocket proxy protocol, announced in the "hello" message on connect
+export const PROXY_PROTOCOL_VERSION = '1.6';
+export const PROXY_CLIENT_CAPABILITIES = ['binary_bodies', 'cancel', 'flow_control', 'priority', 'timeouts', 'resume', 'sse_framing', 'drain', 'typed_errors', 'protocol_errors'];
+export const PROXY_COMPRESSION_MIN_BYTES = 1024; // Smaller payloads are never compressed
+export const PROXY_CLIENT_BUILD = process.env.CLIENT_BUILD || 'dev';
+
+// Relay endpoints. WEBSOCKET_PROXY_URL may hold several, comma-separated.
+export const DEFAULT_WEBSOCKET_PROXY_URL = 'ws://127.0.0.1:5345/v1/ws';
+export const PROXY_ENDPOINT_FAILOVER_THRESHOLD = 3; // Consecutive connect failures before rotating
+
+// WebSocket proxy executor limits
+export const DEFAULT_PROXY_MAX_IN_FLIGHT = 4; // Parallel upstream fetches per tab
+export const DEFAULT_PROXY_MAX_QUEUED = 64; // Requests beyond this are rejected with BUSY
+export const DEFAULT_PROXY_DRAIN_TIMEOUT_MS = 30 * 1000; // A drain closes the socket after this even with requests outstanding
+
+// Only the Gemini API is reachable through the proxy unless configured otherwise
+export const DEFAULT_PROXY_POLICY: ProxyPolicy = {
+  defaultAction: 'deny',
+  rules: [
+    { action: 'allow', host: 'generativelanguage.googleapis.com', pathPrefix: '/' },
+  ],
+};
+export const PROXY_POLICY_AUDIT_LIMIT = 200; // Most recent decisions kept for the audit list
+
+export const DEFAULT_PROXY_REQUEST_TIMING: ProxyRequestTimingConfig = {
+  firstByteTimeoutMs: 120 * 1000, // Non-streaming generateContent only sends headers once it is done
+  idleTimeoutMs: 60 * 1000,
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30 * 1000,
+  retryStatuses: [408, 429, 502, 503, 504],
+};
+
+export const PROXY_INSPECTOR_MAX_ENTRIES = 200;
+export const PROXY_INSPECTOR_MAX_BODY_BYTES = 256 * 1024; // Per captured request or response body
+// Header and query parameter names whose values never appear in the inspector or HAR export
+export const PROXY_INSPECTOR_REDACTED_NAMES = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-goog-api-key', 'x-api-key', 'key', 'auth_token', 'access_token', 'token'];
+
+// Secret name used by the settings UI for the locally stored Gemini API key
+export const PROXY_API_KEY_SECRET = 'apiKey';
+
+export const DEFAULT_PROXY_REWRITE_RULES: ProxyRewriteRule[] = [
+  {
+    id: 'strip-models-key',
+    description: "Remove the 'key' query param from model listings",
+    match: { methods: ['GET'], urlPattern: '/v1beta/models/?$' },
+    actions: [{ target: 'queryParam', op: 'remove', name: 'key' }],
+  },
+];
+
+export const PROXY_CACHE_HEADER = 'x-proxy-cache'; // HIT or MISS on responses to cacheable requests
+export const PROXY_CACHE_MAX_ENTRIES = 100;
+export const PROXY_CACHE_MAX_BODY_BYTES = 1024 * 1024; // Larger responses are never cached
+export const DEFAULT_PROXY_CACHE_CONFIG: ProxyCacheConfig = {
+  enabled: false,
+  rules: [
+    {
+      id: 'model-listings',
+      description: 'Model list and model metadata',
+      methods: ['GET'],
+      urlPattern: '/v1beta/models(/[^/:]+)?/?$',
+      ttlSeconds: 300,
+      varyHeaders: ['authorization', 'x-goog-api-key'],
+    },
+  ],
+};
+
+export const GEMINI_API_HOST = 'generativelanguage.googleapis.com'; // Host of direct chat calls, for rate limiting
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: false,
+  buckets: [
+    { id: 'gemini-host', scope: 'host', match: GEMINI_API_HOST, capacity: 60, refillPerMinute: 60, mode: 'delay', maxDelayMs: 30000 },
+    { id: 'per-model', scope: 'model', match: '*', capacity: 10, refillPerMinute: 10, mode: 'delay', maxDelayMs: 60000 },
+  ],
+};
+
+export const USAGE_LEDGER_MAX_DAYS = 90; // Older days are dropped from the ledger
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-pro*', inputPerMillion: 1.25, outputPerMillion: 10, cachedInputPerMillion: 0.31 },
+  { model: 'gemini-2.5-flash-lite*', inputPerMillion: 0.1, outputPerMillion: 0.4, cachedInputPerMillion: 0.025 },
+  { model: 'gemini-2.5-flash*', inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+  { model: 'gemini-2.0-flash-lite*', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { model: 'gemini-2.0-flash*', inputPerMillion: 0.1, outputPerMillion: 0.4, cachedInputPerMillion: 0.025 },
+];
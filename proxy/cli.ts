@@ -0,0 +1,168 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs, format } from 'node:util';
+import { webSocketProxyManager } from '../services/webSocketService';
+import { proxyEndpointManager } from '../services/proxyEndpoints';
+import { proxyPolicyManager } from '../services/proxyPolicy';
+import { proxyRewriteManager } from '../services/proxyRewrite';
+import { isTokenExpired } from '../services/proxyAuth';
+import { WebSocketProxyStatus, WebSocketProxyStats, ProxyPolicy, ProxyRewriteRule } from '../types';
+
+// `npm run proxy -- --url ws://... --token ...`: runs the browser's proxy executor
+// (services/webSocketService.ts) headless under Node, on its built-in WebSocket and fetch.
+// Every log line is one JSON object on stdout. SIGINT/SIGTERM drain the connection: the relay
+// is told to stop sending work and in-flight requests get up to --drain-timeout seconds to
+// finish before the socket closes. A second signal exits at once.
+//
+// --config points at a JSON file with any of:
+//   { "policy": ProxyPolicy, "rewriteRules": ProxyRewriteRule[], "secrets": { "NAME": "value" } }
+
+const USAGE = `Usage: npm run proxy -- --url <ws-url> [--url <ws-url>...] [--token <jwt>] [--config <file>] [--drain-timeout <seconds>]
+The token may also come from the PROXY_TOKEN environment variable.`;
+const DEFAULT_DRAIN_TIMEOUT_S = 30;
+const DISCONNECT_TIMEOUT_MS = 5000;
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+function log(level: LogLevel, msg: string, fields: Record<string, unknown> = {}) {
+  process.stdout.write(JSON.stringify({ time: new Date().toISOString(), level, msg, ...fields }) + '\n');
+}
+
+// The shared services log through console with a "Component: message" prefix; turn those
+// lines into JSON records, keeping the component and any Error as separate fields.
+function captureConsole() {
+  const capture = (level: LogLevel) => (...args: unknown[]) => {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const text = format(...args.filter(arg => arg !== error).map(arg => arg instanceof Event ? `[${arg.type} event]` : arg));
+    const prefix = /^([A-Z][\w ]*?): (.*)$/s.exec(text);
+    if (prefix?.[1] === 'WebSocket Proxy Status') return; // Logged with fields by the status callback
+    log(level, prefix ? prefix[2] : text, {
+      ...(prefix ? { component: prefix[1] } : {}),
+      ...(error ? { error: error.message } : {}),
+    });
+  };
+  console.debug = capture('debug');
+  console.log = capture('info');
+  console.info = capture('info');
+  console.warn = capture('warn');
+  console.error = capture('error');
+}
+
+// Node 20's WebSocket reports a failed connection with "error" alone: no "close" follows and
+// readyState stays CONNECTING, so the executor would never schedule a reconnect.
+function patchWebSocketClose() {
+  class NodeWebSocket extends WebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols);
+      this.addEventListener('error', () => setTimeout(() => {
+        if (this.readyState !== WebSocket.CONNECTING) return; // A compliant close is on its way
+        this.dispatchEvent(Object.assign(new Event('close'), { code: 1006, reason: 'Connection failed', wasClean: false }));
+      }, 0));
+    }
+  }
+  globalThis.WebSocket = NodeWebSocket;
+}
+
+// Throws with a readable message if the file is missing, not JSON or holds invalid settings.
+function loadConfigFile(path: string) {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Config file ${path} must hold a JSON object.`);
+  }
+  // The setters validate and throw readable messages
+  const { policy, rewriteRules, secrets } = config as { policy?: ProxyPolicy; rewriteRules?: ProxyRewriteRule[]; secrets?: Record<string, string> };
+  if (policy !== undefined) proxyPolicyManager.setPolicy(policy);
+  if (rewriteRules !== undefined) proxyRewriteManager.setRules(rewriteRules);
+  if (secrets !== undefined) proxyRewriteManager.setSecrets(secrets);
+}
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      url: { type: 'string', multiple: true },
+      token: { type: 'string' },
+      config: { type: 'string' },
+      'drain-timeout': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE + '\n');
+    process.exit(0);
+  }
+  const token = values.token || process.env.PROXY_TOKEN || '';
+  if (!token) throw new Error(`A token is required (--token or PROXY_TOKEN).\n${USAGE}`);
+  if (isTokenExpired(token)) throw new Error("The proxy token has expired.");
+  const drainTimeoutS = values['drain-timeout'] === undefined ? DEFAULT_DRAIN_TIMEOUT_S : Number(values['drain-timeout']);
+  if (!Number.isFinite(drainTimeoutS) || drainTimeoutS < 0) {
+    throw new Error('"--drain-timeout" must be a non-negative number of seconds.');
+  }
+  return { urls: values.url ?? [], token, configPath: values.config, drainTimeoutMs: drainTimeoutS * 1000 };
+}
+
+async function main() {
+  captureConsole();
+  if (typeof WebSocket === 'undefined') {
+    throw new Error("This Node has no built-in WebSocket; use Node 22+, or Node 20 with --experimental-websocket.");
+  }
+  patchWebSocketClose();
+  const options = parseOptions();
+  if (options.configPath) loadConfigFile(options.configPath);
+  if (options.urls.length > 0) proxyEndpointManager.setEndpoints(options.urls);
+
+  let status = WebSocketProxyStatus.IDLE;
+  let stats: WebSocketProxyStats = { inFlight: 0, queued: 0 };
+  let waiters: (() => void)[] = [];
+  webSocketProxyManager.setOnStatusChange((newStatus, details) => {
+    status = newStatus;
+    waiters.forEach(wake => wake());
+    log('info', 'status', { status: newStatus, ...(details ? { details } : {}) });
+  });
+  webSocketProxyManager.setOnStatsChange((newStats) => {
+    stats = newStats;
+    waiters.forEach(wake => wake());
+  });
+  webSocketProxyManager.setOnAuthRequired((reason) => log('error', 'auth_required', { reason }));
+
+  // Resolves once `condition` holds or after `timeoutMs`, whichever comes first
+  const waitFor = (condition: () => boolean, timeoutMs: number) => new Promise<boolean>(resolve => {
+    const done = (met: boolean) => {
+      clearTimeout(timer);
+      waiters = waiters.filter(waiter => waiter !== check);
+      resolve(met);
+    };
+    const check = () => { if (condition()) done(true); };
+    const timer = setTimeout(() => done(false), timeoutMs);
+    waiters.push(check);
+    check();
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      log('warn', 'forced_exit', { signal, inFlight: stats.inFlight, queued: stats.queued });
+      process.exit(130);
+    }
+    shuttingDown = true;
+    log('info', 'draining', { signal, inFlight: stats.inFlight, queued: stats.queued, timeoutMs: options.drainTimeoutMs });
+    webSocketProxyManager.drain(options.drainTimeoutMs);
+    await waitFor(() => status === WebSocketProxyStatus.IDLE, options.drainTimeoutMs + DISCONNECT_TIMEOUT_MS);
+    // Requests cut off at the deadline are still counted until their aborts settle
+    log('info', 'stopped', { drained: stats.inFlight === 0 && stats.queued === 0 });
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  log('info', 'starting', { endpoints: proxyEndpointManager.getState().endpoints.map(endpoint => endpoint.url) });
+  webSocketProxyManager.connect(options.token);
+}
+
+main().catch(error => {
+  log('error', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
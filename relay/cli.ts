@@ -0,0 +1,66 @@
+import { createFakeUpstream } from './fakeUpstream';
+import { createRelayServer, RelayServer } from './relayServer';
+
+// `npm run relay`: serves the stand-in relay on the app's default endpoint
+// (ws://127.0.0.1:5345/v1/ws) next to a fake upstream. Requests to
+// http://127.0.0.1:5345/relay/<path> are sent through the connected app to
+// <upstream>/<path>, e.g. `curl http://127.0.0.1:5345/relay/sse?events=10`.
+// The app's proxy policy must allow 127.0.0.1 for these to go through.
+
+const RELAY_PORT = Number(process.env.RELAY_PORT) || 5345;
+const UPSTREAM_PORT = Number(process.env.UPSTREAM_PORT) || 5346;
+const RELAY_PREFIX = '/relay/';
+
+async function main() {
+  const upstream = await createFakeUpstream(UPSTREAM_PORT);
+  let relay: RelayServer | null = null;
+
+  relay = await createRelayServer({
+    port: RELAY_PORT,
+    token: process.env.RELAY_TOKEN || undefined,
+    compression: process.env.RELAY_COMPRESSION === '1',
+    onHttpRequest: async (req, res) => {
+      if (!relay || !req.url?.startsWith(RELAY_PREFIX)) {
+        res.writeHead(404, { 'content-type': 'text/plain' }).end(`Try ${RELAY_PREFIX}plain, ${RELAY_PREFIX}sse, ${RELAY_PREFIX}error or ${RELAY_PREFIX}slow\n`);
+        return;
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = Buffer.concat(chunks);
+      const { id, response } = relay.request({
+        method: req.method || 'GET',
+        url: `${upstream.url}/${req.url.slice(RELAY_PREFIX.length)}`,
+        headers: req.headers['content-type'] ? { 'content-type': String(req.headers['content-type']) } : {},
+        ...(body.length > 0 ? { body: body.toString('utf8') } : {}),
+      });
+      console.log(`relay: ${id} ${req.method} ${req.url}`);
+      const result = await response;
+      if (result.error?.code === 'HTTP_ERROR') {
+        const { status, headers, body, encoding } = result.error.http_response;
+        res.writeHead(status, { 'content-type': headers['content-type'] ?? 'application/octet-stream' });
+        res.end(Buffer.from(body, encoding === 'base64' ? 'base64' : 'utf8'));
+        return;
+      }
+      if (result.error || result.protocolError) {
+        res.writeHead(502, { 'content-type': 'application/json' }).end(JSON.stringify(result.error ?? result.protocolError));
+        return;
+      }
+      res.writeHead(result.status ?? 502, { 'content-type': result.headers?.['content-type'] ?? 'application/octet-stream' });
+      res.end(result.body);
+    },
+  });
+
+  console.log(`relay: listening on ${relay.url}, fake upstream on ${upstream.url}`);
+  relay.waitForClient().then(() => console.log('relay: client connected'));
+
+  process.on('SIGINT', async () => {
+    await relay?.close();
+    await upstream.close();
+    process.exit(0);
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
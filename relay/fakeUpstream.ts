@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// Local stand-in for the APIs the relay asks the client to fetch. Routes:
+//   GET  /plain                          JSON body
+//   GET  /sse?events=N&intervalMs=M      text/event-stream, one event every M ms
+//                                        (&split=1 writes each event in two parts, mid-line)
+//   GET  /error                          500 with a JSON error body
+//   GET  /slow?delayMs=M                 headers only after M ms
+//   GET  /stalled-error                  500 headers and half a JSON body, then nothing
+//   GET  /broken?events=N                N SSE events, then the connection is cut mid-body
+//   ANY  /echo                           returns the method, headers, query and body
+//   ANY  /flaky?id=X&failures=N&retryAfter=S  503 with Retry-After: S for the first N requests per id, then /plain
+//   GET  /bytes?parts=N                  BINARY_BODY as application/octet-stream, in N writes
+//   POST /bytes                          returns the raw request body as application/octet-stream
+//   POST /v1beta/models/M:generateContent        Gemini-style JSON with usageMetadata
+//   POST /v1beta/models/M:streamGenerateContent  the same as SSE in three events (running totals)
+
+export interface FakeUpstream {
+  url: string; // e.g. http://127.0.0.1:41234
+  requestCount: () => number;
+  close: () => Promise<void>;
+}
+
+export const PLAIN_BODY = { ok: true, message: 'Hello from the fake upstream' };
+export const ERROR_BODY = { error: { code: 500, message: 'Internal error', status: 'INTERNAL' } };
+export const SLOW_BODY = 'Slow response';
+export const BINARY_BODY = Buffer.from(Array.from({ length: 256 }, (_, index) => index)); // Every byte value 0x00-0xFF; not valid UTF-8
+
+export const USAGE_METADATA = { promptTokenCount: 12, candidatesTokenCount: 30, thoughtsTokenCount: 8, cachedContentTokenCount: 4, totalTokenCount: 50 };
+
+function generateContentChunk(part: number, parts: number) {
+  const candidatesTokenCount = Math.round(USAGE_METADATA.candidatesTokenCount * part / parts);
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text: `Part ${part}` }] } }],
+    usageMetadata: { ...USAGE_METADATA, candidatesTokenCount, totalTokenCount: USAGE_METADATA.totalTokenCount - USAGE_METADATA.candidatesTokenCount + candidatesTokenCount },
+  };
+}
+
+export function sseEvent(index: number): string {
+  return `data: ${JSON.stringify({ index, text: `Event ${index}` })}\n\n`;
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function createFakeUpstream(port = 0): Promise<FakeUpstream> {
+  let requests = 0;
+  const flakyHits = new Map<string, number>();
+  const timers = new Set<NodeJS.Timeout>();
+
+  const later = (ms: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const server = createServer(async (req, res) => {
+    requests++;
+    const url = new URL(req.url || '/', 'http://localhost');
+    const generate = /^\/v1beta\/models\/[^/:]+:(generateContent|streamGenerateContent)$/.exec(url.pathname);
+    if (generate?.[1] === 'generateContent') {
+      sendJson(res, 200, generateContentChunk(1, 1));
+      return;
+    }
+    if (generate) {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      [1, 2, 3].forEach(part => res.write(`data: ${JSON.stringify(generateContentChunk(part, 3))}\r\n\r\n`));
+      res.end();
+      return;
+    }
+    switch (url.pathname) {
+      case '/plain':
+        sendJson(res, 200, PLAIN_BODY);
+        return;
+      case '/error':
+        sendJson(res, 500, ERROR_BODY);
+        return;
+      case '/stalled-error':
+        res.writeHead(500, { 'content-type': 'application/json' });
+        res.write('{"error": {"code": 500,');
+        return;
+      case '/slow':
+        later(Number(url.searchParams.get('delayMs')) || 1000, () => {
+          res.writeHead(200, { 'content-type': 'text/plain' });
+          res.end(SLOW_BODY);
+        });
+        return;
+      case '/sse': {
+        const events = Number(url.searchParams.get('events')) || 5;
+        const intervalMs = Number(url.searchParams.get('intervalMs')) || 10;
+        const split = url.searchParams.get('split') === '1';
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+        let index = 0;
+        const next = () => {
+          if (res.destroyed) return;
+          const event = sseEvent(index++);
+          const afterEvent = () => (index < events ? later(intervalMs, next) : res.end());
+          if (split) {
+            // Two writes per event, so upstream chunks end mid-line
+            const half = Math.floor(event.length / 2);
+            res.write(event.slice(0, half));
+            later(Math.max(1, intervalMs / 2), () => {
+              if (res.destroyed) return;
+              res.write(event.slice(half));
+              afterEvent();
+            });
+          } else {
+            res.write(event);
+            afterEvent();
+          }
+        };
+        next();
+        return;
+      }
+      case '/broken': {
+        const events = Number(url.searchParams.get('events')) || 2;
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        for (let index = 0; index < events; index++) res.write(sseEvent(index));
+        later(50, () => res.destroy());
+        return;
+      }
+      case '/flaky': {
+        const id = url.searchParams.get('id') ?? '';
+        const hits = (flakyHits.get(id) ?? 0) + 1;
+        flakyHits.set(id, hits);
+        if (hits <= (Number(url.searchParams.get('failures')) || 1)) {
+          res.writeHead(503, { 'content-type': 'application/json', 'retry-after': url.searchParams.get('retryAfter') ?? '1' });
+          res.end(JSON.stringify({ error: { code: 503, message: 'Try again later', status: 'UNAVAILABLE' } }));
+          return;
+        }
+        sendJson(res, 200, PLAIN_BODY);
+        return;
+      }
+      case '/bytes': {
+        if (req.method === 'POST') {
+          const body = await readBody(req);
+          res.writeHead(200, { 'content-type': 'application/octet-stream' });
+          res.end(body);
+          return;
+        }
+        const parts = Math.max(1, Number(url.searchParams.get('parts')) || 1);
+        const partSize = Math.ceil(BINARY_BODY.length / parts);
+        res.writeHead(200, { 'content-type': 'application/octet-stream' });
+        let offset = 0;
+        const next = () => {
+          if (res.destroyed) return;
+          res.write(BINARY_BODY.subarray(offset, offset + partSize));
+          offset += partSize;
+          if (offset < BINARY_BODY.length) later(20, next);
+          else res.end();
+        };
+        next();
+        return;
+      }
+      case '/echo': {
+        const body = await readBody(req);
+        sendJson(res, 200, {
+          method: req.method,
+          contentType: req.headers['content-type'] ?? null,
+          headers: req.headers,
+          query: Object.fromEntries(url.searchParams),
+          body: body.toString('utf8'),
+        });
+        return;
+      }
+      default:
+        sendJson(res, 404, { error: { code: 404, message: `No route for ${url.pathname}` } });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    requestCount: () => requests,
+    close: () => new Promise(resolve => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
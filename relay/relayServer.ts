@@ -0,0 +1,285 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { gunzipSync, inflateSync } from 'node:zlib';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  WSClientSentMessage,
+  WSServerSentMessage,
+  WSHttpRequestPayload,
+  WSHelloPayload,
+  WSErrorPayload,
+  WSProtocolErrorPayload,
+  WSStreamAckPayload,
+  WSBodyEncoding,
+  WSPayloadCompression,
+} from '../types';
+import { PROXY_PROTOCOL_VERSION } from '../constants';
+
+// Stand-in for the relay server: speaks the server side of the proxy protocol so the
+// client can be exercised offline. Tests drive it through `request`, `cancel`, `ack`, `sendRaw` and
+// `dropClient`; `npm run relay` serves it for manual use against the app.
+
+export interface RelayServerOptions {
+  port?: number; // 0 (default) picks a free port
+  path?: string; // WebSocket path, default /v1/ws
+  token?: string; // When set, the first message must be an auth message carrying this token
+  protocolVersion?: string; // Sent in hello_ack
+  capabilities?: string[]; // Sent in hello_ack; defaults to all the client offered
+  answerHello?: boolean; // false behaves like a server predating the handshake
+  answerPings?: boolean;
+  compression?: boolean; // Accept the client's preferred payload compression
+  flowControlWindow?: number; // Enables credit flow control with this window
+  autoAck?: boolean; // false leaves stream_ack (and credits) to the test, see `ack`
+  onHttpRequest?: (req: IncomingMessage, res: ServerResponse) => void; // Non-WebSocket requests
+}
+
+export interface RelayedChunk {
+  seq: number;
+  event?: number;
+  data: Buffer;
+}
+
+export interface RelayedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: Buffer; // Decoded (and decompressed) response body
+  streamed: boolean;
+  chunks: RelayedChunk[];
+  compressedPayloads: number;
+  error?: WSErrorPayload;
+  protocolError?: WSProtocolErrorPayload; // The client rejected the http_request itself
+}
+
+export interface RelayServer {
+  url: string;
+  messages: WSClientSentMessage[]; // Everything received, in order
+  hello: () => WSHelloPayload | null; // From the current client
+  waitForClient: () => Promise<void>; // Until a client has completed auth and hello
+  waitForDisconnect: () => Promise<{ code: number; reason: string }>;
+  request: (payload: WSHttpRequestPayload) => { id: string; response: Promise<RelayedResponse> };
+  cancel: (id: string, reason?: string) => void;
+  ack: (id: string, payload: WSStreamAckPayload) => void;
+  sendRaw: (data: string) => void; // Sent as-is, for malformed messages
+  dropClient: () => void; // Abrupt, like a network failure
+  setAnswerPings: (answer: boolean) => void;
+  close: () => Promise<void>;
+}
+
+interface PendingRequest {
+  response: RelayedResponse;
+  chunks: Buffer[];
+  lastSeq: number; // -1 until stream_start arrives
+  resolve: (response: RelayedResponse) => void;
+}
+
+function decodePayload(data: string, encoding: WSBodyEncoding | undefined, compression: WSPayloadCompression | undefined): Buffer {
+  if (compression) {
+    const compressed = Buffer.from(data, 'base64');
+    return compression === 'gzip' ? gunzipSync(compressed) : inflateSync(compressed);
+  }
+  return Buffer.from(data, encoding === 'base64' ? 'base64' : 'utf8');
+}
+
+export async function createRelayServer(options: RelayServerOptions = {}): Promise<RelayServer> {
+  const path = options.path ?? '/v1/ws';
+  let answerPings = options.answerPings ?? true;
+  const autoAck = options.autoAck ?? true;
+  let client: WebSocket | null = null;
+  let clientReady = false;
+  let clientHello: WSHelloPayload | null = null;
+  let requestCounter = 0;
+  const messages: WSClientSentMessage[] = [];
+  const pending = new Map<string, PendingRequest>();
+  let readyWaiters: (() => void)[] = [];
+  let disconnectWaiters: ((event: { code: number; reason: string }) => void)[] = [];
+
+  const httpServer = createServer((req, res) => {
+    if (options.onHttpRequest) {
+      options.onHttpRequest(req, res);
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  const wss = new WebSocketServer({ server: httpServer, path });
+
+  const send = (message: WSServerSentMessage) => {
+    if (client && client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  };
+
+  const finish = (id: string) => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    entry.response.body = Buffer.concat(entry.chunks);
+    entry.resolve(entry.response);
+  };
+
+  const markReady = () => {
+    clientReady = true;
+    if (options.flowControlWindow) {
+      send({ type: 'flow_control', payload: { window: options.flowControlWindow } });
+    }
+    // Pick up streams interrupted by the previous connection
+    pending.forEach((entry, id) => send({ id, type: 'resume', payload: { lastSeq: entry.lastSeq } }));
+    readyWaiters.forEach(resolve => resolve());
+    readyWaiters = [];
+  };
+
+  const handleMessage = (socket: WebSocket, message: WSClientSentMessage, isFirst: boolean) => {
+    if (options.token && isFirst && (message.type !== 'auth' || message.payload.token !== options.token)) {
+      socket.close(4001, 'Unauthorized');
+      return;
+    }
+    switch (message.type) {
+      case 'auth':
+        if (options.token && message.payload.token !== options.token) {
+          socket.close(4001, 'Unauthorized');
+        }
+        break;
+      case 'hello': {
+        clientHello = message.payload;
+        if (options.answerHello === false) {
+          markReady();
+          break;
+        }
+        const compression = options.compression ? message.payload.compression[0] : undefined;
+        send({
+          type: 'hello_ack',
+          payload: {
+            protocolVersion: options.protocolVersion ?? PROXY_PROTOCOL_VERSION,
+            capabilities: options.capabilities ?? message.payload.capabilities,
+            ...(compression ? { compression } : {}),
+            serverBuild: 'stand-in-relay',
+          },
+        });
+        markReady();
+        break;
+      }
+      case 'ping':
+        if (answerPings) send({ type: 'pong' });
+        break;
+      case 'http_response': {
+        const entry = pending.get(message.id);
+        if (!entry) break;
+        entry.response.status = message.payload.status;
+        entry.response.headers = message.payload.headers;
+        entry.chunks.push(decodePayload(message.payload.body, message.payload.encoding, message.payload.compression));
+        if (message.payload.compression) entry.response.compressedPayloads++;
+        finish(message.id);
+        break;
+      }
+      case 'stream_start': {
+        const entry = pending.get(message.id);
+        if (!entry) break;
+        entry.response.status = message.payload.status;
+        entry.response.headers = message.payload.headers;
+        entry.response.streamed = true;
+        entry.lastSeq = Math.max(entry.lastSeq, 0);
+        break;
+      }
+      case 'stream_chunk': {
+        const entry = pending.get(message.id);
+        if (!entry || message.payload.seq <= entry.lastSeq) break; // Duplicate from a replay
+        const data = decodePayload(message.payload.data, message.payload.encoding, message.payload.compression);
+        entry.chunks.push(data);
+        entry.response.chunks.push({ seq: message.payload.seq, event: message.payload.event, data });
+        if (message.payload.compression) entry.response.compressedPayloads++;
+        entry.lastSeq = message.payload.seq;
+        if (!autoAck) break;
+        send({
+          id: message.id,
+          type: 'stream_ack',
+          payload: { seq: message.payload.seq, ...(options.flowControlWindow ? { credits: 1 } : {}) },
+        });
+        break;
+      }
+      case 'stream_end':
+        finish(message.id);
+        break;
+      case 'error': {
+        const entry = pending.get(message.id);
+        if (!entry) break;
+        entry.response.error = message.payload;
+        finish(message.id);
+        break;
+      }
+      case 'protocol_error': {
+        if (!message.id) break; // Not about a particular request
+        const entry = pending.get(message.id);
+        if (!entry) break;
+        entry.response.protocolError = message.payload;
+        finish(message.id);
+        break;
+      }
+      case 'draining':
+        break; // Only recorded: the stand-in never routes requests on its own, tests decide what to send
+    }
+  };
+
+  wss.on('connection', socket => {
+    if (client) client.terminate(); // One client at a time; the newest wins
+    client = socket;
+    clientReady = false;
+    clientHello = null;
+    let isFirst = true;
+
+    socket.on('message', raw => {
+      let message: WSClientSentMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        socket.close(1007, 'Invalid JSON');
+        return;
+      }
+      messages.push(message);
+      handleMessage(socket, message, isFirst);
+      isFirst = false;
+    });
+    socket.on('close', (code, reason) => {
+      if (client !== socket) return;
+      client = null;
+      clientReady = false;
+      disconnectWaiters.forEach(resolve => resolve({ code, reason: reason.toString() }));
+      disconnectWaiters = [];
+    });
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `ws://127.0.0.1:${port}${path}`,
+    messages,
+    hello: () => clientHello,
+    waitForClient: () => clientReady ? Promise.resolve() : new Promise(resolve => readyWaiters.push(resolve)),
+    waitForDisconnect: () => new Promise(resolve => disconnectWaiters.push(resolve)),
+    request: (payload) => {
+      const id = `req-${++requestCounter}`;
+      const response = new Promise<RelayedResponse>(resolve => {
+        pending.set(id, {
+          response: { body: Buffer.alloc(0), streamed: false, chunks: [], compressedPayloads: 0 },
+          chunks: [],
+          lastSeq: -1,
+          resolve,
+        });
+      });
+      send({ id, type: 'http_request', payload });
+      return { id, response };
+    },
+    cancel: (id, reason) => send({ id, type: 'cancel', payload: { reason } }),
+    ack: (id, payload) => send({ id, type: 'stream_ack', payload }),
+    sendRaw: (data) => {
+      if (client && client.readyState === WebSocket.OPEN) client.send(data);
+    },
+    dropClient: () => client?.terminate(),
+    setAnswerPings: (answer) => { answerPings = answer; },
+    close: () => new Promise(resolve => {
+      wss.clients.forEach(socket => socket.terminate());
+      wss.close();
+      httpServer.closeAllConnections();
+      httpServer.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,67 @@
+import { WSBodyEncoding } from '../types';
+
+// Content types that are safe to carry as UTF-8 text over the socket.
+// Everything else (images, audio, octet-stream, File API downloads...) is base64 encoded.
+const TEXT_CONTENT_TYPE_PREFIXES = ['text/'];
+const TEXT_CONTENT_TYPES = [
+  'application/json',
+  'application/javascript',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+  'application/x-ndjson',
+  'application/graphql',
+];
+const TEXT_CONTENT_TYPE_SUFFIXES = ['+json', '+xml'];
+
+const BASE64_CHUNK_SIZE = 0x8000; // Keep String.fromCharCode argument lists well under engine limits
+
+export function isTextContentType(contentType: string | null | undefined): boolean {
+  if (!contentType) return true; // No content type: assume text, as the protocol always did
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  if (!mimeType) return true;
+  return TEXT_CONTENT_TYPE_PREFIXES.some(prefix => mimeType.startsWith(prefix))
+    || TEXT_CONTENT_TYPES.includes(mimeType)
+    || TEXT_CONTENT_TYPE_SUFFIXES.some(suffix => mimeType.endsWith(suffix));
+}
+
+export function chooseBodyEncoding(contentType: string | null | undefined): WSBodyEncoding {
+  return isTextContentType(contentType) ? 'utf8' : 'base64';
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Decodes a body received over the socket into something fetch() accepts.
+// A missing encoding means plain UTF-8 text, for compatibility with older servers.
+export function decodeBody(body: string, encoding: WSBodyEncoding | undefined): string | Uint8Array {
+  return encoding === 'base64' ? base64ToBytes(body) : body;
+}
+
+export function encodeBytes(bytes: Uint8Array, encoding: WSBodyEncoding): string {
+  return encoding === 'base64' ? bytesToBase64(bytes) : new TextDecoder().decode(bytes);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
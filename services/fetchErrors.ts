@@ -0,0 +1,68 @@
+import { WSFetchFailureKind } from '../types';
+
+// Sorts out why fetch() rejected without a response. Node's fetch names the cause in
+// `error.cause.code`; browsers say "Failed to fetch" for everything on purpose, so there a
+// no-cors probe of the origin tells a CORS block (the host does answer) from an unreachable host.
+// The probe never carries the request's path or query, which may hold injected credentials.
+
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_NONAME', 'EAI_FAIL'];
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_CLOSED'];
+const TLS_ERROR_PATTERN = /CERT|TLS|SSL|SELF_SIGNED|UNABLE_TO_VERIFY|UNABLE_TO_GET_ISSUER/;
+const CORS_PROBE_TIMEOUT_MS = 5000;
+const MAX_CAUSE_DEPTH = 3;
+
+export interface FetchFailure {
+  kind: WSFetchFailureKind;
+  message: string;
+}
+
+// Error code from the cause chain, e.g. "ECONNREFUSED" for Node's "fetch failed"
+function getCauseCode(error: unknown): string | null {
+  let current = error;
+  for (let depth = 0; depth <= MAX_CAUSE_DEPTH && current && typeof current === 'object'; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+}
+
+// Only pages and workers served over http(s) are subject to CORS
+function isCorsContext(): boolean {
+  return typeof location !== 'undefined' && /^https?:$/.test(location.protocol);
+}
+
+// A no-cors request gets an opaque response from any host that answers at all
+async function isReachableWithoutCors(url: string, signal: AbortSignal): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CORS_PROBE_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal.addEventListener('abort', forwardAbort, { once: true });
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', credentials: 'omit', signal: controller.signal });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+    signal.removeEventListener('abort', forwardAbort);
+  }
+}
+
+// `mayProbe` is asked before the origin is probed, so the probe obeys the same policy as requests.
+export async function classifyFetchFailure(error: unknown, url: string, signal: AbortSignal, mayProbe: (probeUrl: string) => boolean): Promise<FetchFailure> {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = getCauseCode(error);
+  const detailed = code ? `${message} (${code})` : message;
+  if (code && DNS_ERROR_CODES.includes(code)) return { kind: 'dns', message: detailed };
+  if (code && TLS_ERROR_PATTERN.test(code)) return { kind: 'tls', message: detailed };
+  if (code && NETWORK_ERROR_CODES.includes(code)) return { kind: 'network', message: detailed };
+  if (error instanceof TypeError && !code && isCorsContext()) {
+    const probeUrl = `${new URL(url).origin}/`;
+    if (!mayProbe(probeUrl)) return { kind: 'unknown', message };
+    return await isReachableWithoutCors(probeUrl, signal)
+      ? { kind: 'cors', message: `${message}: ${new URL(url).origin} answers, but CORS blocked the response` }
+      : { kind: 'network', message };
+  }
+  return { kind: 'unknown', message: detailed };
+}
@@ -0,0 +1,96 @@
+// Flow control for forwarding upstream response streams over the WebSocket.
+// Two layers: a local high-water mark on socket.bufferedAmount, and an optional
+// per-stream credit window that the server enables with a "flow_control" message.
+
+const WS_OPEN = 1;
+const BUFFER_POLL_INTERVAL_MS = 25;
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+// Resolves once the socket's send buffer has drained below the high-water mark.
+// Rejects if the socket stops being open (nothing would deliver the data) or the signal aborts.
+export function waitForSendBuffer(socket: WebSocket, highWaterMark: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  if (socket.readyState !== WS_OPEN) return Promise.reject(new Error("WebSocket is not open"));
+  if (socket.bufferedAmount < highWaterMark) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    const onAbort = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      reject(abortReason(signal));
+    };
+    const poll = () => {
+      timeoutId = null;
+      if (socket.readyState !== WS_OPEN) {
+        signal.removeEventListener('abort', onAbort);
+        reject(new Error("WebSocket closed while waiting for the send buffer to drain"));
+      } else if (socket.bufferedAmount < highWaterMark) {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      } else {
+        timeoutId = setTimeout(poll, BUFFER_POLL_INTERVAL_MS);
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    timeoutId = setTimeout(poll, BUFFER_POLL_INTERVAL_MS);
+  });
+}
+
+export interface CreditWindow {
+  // Waits for one credit and consumes it. Each stream_chunk costs one credit.
+  acquire: (signal: AbortSignal) => Promise<void>;
+  // Adds credits granted by a "stream_ack" from the server.
+  grant: (credits: number) => void;
+  available: () => number;
+  // Lifts the limit for good, releasing any waiter (used when the connection it was negotiated on drops)
+  open: () => void;
+}
+
+export function createCreditWindow(initialCredits: number): CreditWindow {
+  let credits = initialCredits;
+  let waiter: (() => void) | null = null;
+
+  const acquire = (signal: AbortSignal): Promise<void> => {
+    if (signal.aborted) return Promise.reject(abortReason(signal));
+    if (credits > 0) {
+      credits--;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        waiter = null;
+        reject(abortReason(signal));
+      };
+      waiter = () => {
+        signal.removeEventListener('abort', onAbort);
+        credits--;
+        resolve();
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const grant = (granted: number) => {
+    if (!Number.isFinite(granted) || granted <= 0) return;
+    credits += Math.floor(granted);
+    if (waiter && credits > 0) {
+      const wake = waiter;
+      waiter = null;
+      wake();
+    }
+  };
+
+  const open = () => {
+    credits = Infinity;
+    if (waiter) {
+      const wake = waiter;
+      waiter = null;
+      wake();
+    }
+  };
+
+  return { acquire, grant, available: () => credits, open };
+}
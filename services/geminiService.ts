@@ -1,6 +1,8 @@
-import { GoogleGenAI, Chat, Part, Model } from "@google/genai";
+import { GoogleGenAI, Chat, Part, Model, GenerateContentResponseUsageMetadata } from "@google/genai";
 import { GeminiService, ChatHistoryItem, ThoughtSupportingPart, ModelOption } from '../types';
-import { DEFAULT_MODEL_ID } from "../constants"; // Import for checking model type
+import { DEFAULT_MODEL_ID, GEMINI_API_HOST } from "../constants"; // Import for checking model type
+import { proxyWorkerClient } from './proxyWorkerClient';
+import { usageLedgerManager } from './usageLedger';
 
 const API_KEY = process.env.API_KEY;
 console.log("api key" + API_KEY);
@@ -129,9 +131,13 @@ const geminiServiceImpl: GeminiService = {
       // Temperature, TopP, systemInstruction, and thinkingConfig are set at chat initialization.
       // The sendMessageStream method in the new SDK might not take a config object in the same way.
       // It primarily takes the message.
+      // Shares the host/model buckets with proxied traffic; a RateLimitError surfaces via onError.
+      await proxyWorkerClient.acquireRateLimit({ host: GEMINI_API_HOST, model: modelId });
       const result = await chat.sendMessageStream({ message });
+      let usage: GenerateContentResponseUsageMetadata | undefined; // Running totals; the last chunk has the final count
 
       for await (const chunkResponse of result) {
+        usage = chunkResponse.usageMetadata ?? usage;
         // The structure of ThoughtSupportingPart and how thoughts are delivered needs verification with the new SDK
         // For now, assuming thoughts might be embedded or require specific parsing if `thinkingConfig` is omitted (for enabled thoughts)
         // The `onThoughtChunk` might need to be re-evaluated.
@@ -164,6 +170,9 @@ const geminiServiceImpl: GeminiService = {
         //    onChunk(chunkResponse.text);
         // }
       }
+      if (usage) {
+        usageLedgerManager.record('chat', modelId, usage);
+      }
     } catch (error) {
       console.error("Error sending message to Gemini:", error);
       if (error instanceof Error) {
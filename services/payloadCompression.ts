@@ -0,0 +1,46 @@
+import { WSBodyEncoding, WSPayloadCompression } from '../types';
+import { bytesToBase64, encodeBytes } from './bodyEncoding';
+
+// Compression of response payloads sent over the socket, using the browser CompressionStream.
+// A compressed payload is base64 of the compressed body bytes; after decompression the bytes
+// are read according to the payload's `encoding` exactly as an uncompressed body would be.
+
+const COMPRESSION_PREFERENCE: WSPayloadCompression[] = ['gzip', 'deflate'];
+
+export function getSupportedCompression(): WSPayloadCompression[] {
+  return typeof CompressionStream === 'function' ? COMPRESSION_PREFERENCE : [];
+}
+
+export function isSupportedCompression(value: unknown): value is WSPayloadCompression {
+  return getSupportedCompression().includes(value as WSPayloadCompression);
+}
+
+async function compressBytes(bytes: Uint8Array, format: WSPayloadCompression): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export interface CompressedPayload {
+  data: string; // What goes on the wire
+  plainData: string; // The same payload uncompressed, encoded per `encoding`
+  compression?: WSPayloadCompression; // Absent when the payload was sent as is
+}
+
+// Compresses `bytes` if they reach `minBytes` and compression actually shrinks them;
+// otherwise returns them encoded as usual.
+export async function compressPayload(
+  bytes: Uint8Array,
+  encoding: WSBodyEncoding,
+  format: WSPayloadCompression | null,
+  minBytes: number
+): Promise<CompressedPayload> {
+  const plain = encodeBytes(bytes, encoding);
+  if (!format || bytes.length < minBytes) {
+    return { data: plain, plainData: plain };
+  }
+  const compressed = bytesToBase64(await compressBytes(bytes, format));
+  if (compressed.length >= plain.length) {
+    return { data: plain, plainData: plain };
+  }
+  return { data: compressed, plainData: plain, compression: format };
+}
@@ -0,0 +1,181 @@
+import { WSServerSentMessage, WSBodyEncoding, WSStreamFraming } from '../types';
+import { isSupportedCompression } from './payloadCompression';
+
+// Runtime checks for what the relay sends, mirroring WSServerSentMessage in types.ts. The
+// validator table is keyed by that union's "type", so a message type added there does not
+// compile until it gets a validator here.
+
+const BODY_ENCODINGS: readonly WSBodyEncoding[] = ['utf8', 'base64'];
+const STREAM_FRAMINGS: readonly WSStreamFraming[] = ['sse'];
+const HTTP_METHOD_PATTERN = /^[A-Za-z]+$/;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/; // Padded, no whitespace
+
+export class ProtocolValidationError extends Error {
+  constructor(
+    public readonly field: string, // Dotted path, e.g. "payload.headers.accept"; "message" for the frame itself
+    public readonly reason: string,
+    public readonly messageId?: string, // The offending message's id, when it had a string one
+    public readonly messageType?: string,
+  ) {
+    super(`"${field}" ${reason}`);
+    this.name = 'ProtocolValidationError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+type MessageValidators = {
+  [Type in WSServerSentMessage['type']]: (message: Fields) => Extract<WSServerSentMessage, { type: Type }>;
+};
+
+function invalid(field: string, reason: string): never {
+  throw new ProtocolValidationError(field, reason);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function requireObject(value: unknown, field: string): Fields {
+  if (!isObject(value)) invalid(field, `must be an object, got ${describe(value)}`);
+  return value;
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string') invalid(field, `must be a string, got ${describe(value)}`);
+  if (value === '') invalid(field, 'must not be empty');
+  return value;
+}
+
+function checkOptionalString(value: unknown, field: string) {
+  if (value !== undefined && typeof value !== 'string') invalid(field, `must be a string, got ${describe(value)}`);
+}
+
+function requireNumber(value: unknown, field: string, options: { integer?: boolean; min?: number } = {}): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(field, `must be a finite number, got ${describe(value)}`);
+  if (options.integer && !Number.isInteger(value)) invalid(field, 'must be an integer');
+  if (options.min !== undefined && value < options.min) invalid(field, `must be at least ${options.min}`);
+  return value;
+}
+
+function checkOptionalNumber(value: unknown, field: string, options: { integer?: boolean; min?: number } = {}) {
+  if (value !== undefined) requireNumber(value, field, options);
+}
+
+function checkOptionalOneOf(value: unknown, field: string, allowed: readonly string[]) {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    invalid(field, `must be one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+  }
+}
+
+function requireId(message: Fields): string {
+  return requireString(message.id, 'id');
+}
+
+function requireHttpUrl(value: unknown, field: string): string {
+  const url = requireString(value, field);
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    invalid(field, 'must be an absolute URL');
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') invalid(field, `must use http or https, got "${protocol}"`);
+  return url;
+}
+
+// Each validator throws on the first bad field; the casts are safe once every field checks out
+const validators: MessageValidators = {
+  http_request: (message) => {
+    requireId(message);
+    const payload = requireObject(message.payload, 'payload');
+    if (!HTTP_METHOD_PATTERN.test(requireString(payload.method, 'payload.method'))) {
+      invalid('payload.method', 'must be an HTTP method name');
+    }
+    requireHttpUrl(payload.url, 'payload.url');
+    const headers = requireObject(payload.headers, 'payload.headers');
+    for (const [name, value] of Object.entries(headers)) {
+      if (typeof value !== 'string') invalid(`payload.headers.${name}`, `must be a string, got ${describe(value)}`);
+    }
+    checkOptionalString(payload.body, 'payload.body');
+    checkOptionalOneOf(payload.encoding, 'payload.encoding', BODY_ENCODINGS);
+    if (payload.encoding === 'base64' && typeof payload.body === 'string' && !BASE64_PATTERN.test(payload.body)) {
+      invalid('payload.body', 'must be valid base64 when encoding is "base64"');
+    }
+    checkOptionalNumber(payload.priority, 'payload.priority');
+    checkOptionalOneOf(payload.framing, 'payload.framing', STREAM_FRAMINGS);
+    return message as unknown as Extract<WSServerSentMessage, { type: 'http_request' }>;
+  },
+  pong: (message) => message as unknown as Extract<WSServerSentMessage, { type: 'pong' }>,
+  hello_ack: (message) => {
+    const payload = requireObject(message.payload, 'payload');
+    requireString(payload.protocolVersion, 'payload.protocolVersion');
+    if (!Array.isArray(payload.capabilities)) {
+      invalid('payload.capabilities', `must be an array, got ${describe(payload.capabilities)}`);
+    }
+    payload.capabilities.forEach((capability, index) => requireString(capability, `payload.capabilities.${index}`));
+    if (payload.compression !== undefined && !isSupportedCompression(payload.compression)) {
+      invalid('payload.compression', 'must be a compression the client offered in hello');
+    }
+    checkOptionalString(payload.serverBuild, 'payload.serverBuild');
+    return message as unknown as Extract<WSServerSentMessage, { type: 'hello_ack' }>;
+  },
+  cancel: (message) => {
+    requireId(message);
+    if (message.payload !== undefined) {
+      checkOptionalString(requireObject(message.payload, 'payload').reason, 'payload.reason');
+    }
+    return message as unknown as Extract<WSServerSentMessage, { type: 'cancel' }>;
+  },
+  flow_control: (message) => {
+    requireNumber(requireObject(message.payload, 'payload').window, 'payload.window', { min: 0 });
+    return message as unknown as Extract<WSServerSentMessage, { type: 'flow_control' }>;
+  },
+  stream_ack: (message) => {
+    requireId(message);
+    const payload = requireObject(message.payload, 'payload');
+    checkOptionalNumber(payload.credits, 'payload.credits', { integer: true, min: 0 });
+    checkOptionalNumber(payload.seq, 'payload.seq', { integer: true, min: 0 });
+    return message as unknown as Extract<WSServerSentMessage, { type: 'stream_ack' }>;
+  },
+  resume: (message) => {
+    requireId(message);
+    requireNumber(requireObject(message.payload, 'payload').lastSeq, 'payload.lastSeq', { integer: true, min: -1 });
+    return message as unknown as Extract<WSServerSentMessage, { type: 'resume' }>;
+  },
+};
+
+export function isServerMessageType(type: string | undefined): type is WSServerSentMessage['type'] {
+  return type !== undefined && Object.hasOwn(validators, type);
+}
+
+function parseFrame(data: unknown): Fields {
+  if (typeof data !== 'string') invalid('message', 'must be a text frame');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    invalid('message', 'is not valid JSON');
+  }
+  return requireObject(parsed, 'message');
+}
+
+// Throws a ProtocolValidationError naming the first invalid field, plus the message's id and
+// type when those could be read, so the rejection can be reported against the right request.
+export function parseServerMessage(data: unknown): WSServerSentMessage {
+  const message = parseFrame(data);
+  const id = typeof message.id === 'string' && message.id !== '' ? message.id : undefined;
+  const type = typeof message.type === 'string' ? message.type : undefined;
+  try {
+    if (type === undefined) invalid('type', `must be a string, got ${describe(message.type)}`);
+    if (!isServerMessageType(type)) invalid('type', `"${type}" is not a known message type`);
+    return validators[type](message);
+  } catch (error) {
+    if (!(error instanceof ProtocolValidationError)) throw error;
+    throw new ProtocolValidationError(error.field, error.reason, id, type);
+  }
+}
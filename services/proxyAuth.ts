@@ -0,0 +1,86 @@
+// Storage and inspection of the JWT used to authenticate with the WebSocket relay.
+// The token is entered in the settings UI and kept in this browser only.
+
+const TOKEN_STORAGE_KEY = 'wsProxyAuthToken';
+
+let currentToken: string | null = loadStoredToken();
+let tokenRefresher: (() => Promise<string | null>) | null = null;
+
+function loadStoredToken(): string | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(TOKEN_STORAGE_KEY) : null;
+  } catch (error) {
+    console.error("Proxy Auth: Could not read stored token:", error);
+    return null;
+  }
+}
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+// Returns the token's `exp` claim in epoch milliseconds, or null for opaque tokens
+// and JWTs without an expiry. The signature is not (and cannot be) verified here.
+export function getTokenExpiry(token: string): number | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) return null;
+  try {
+    const claims = JSON.parse(decodeBase64Url(segments[1]));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isTokenExpired(token: string, skewMs = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+}
+
+function getToken(): string | null {
+  return currentToken;
+}
+
+function setToken(token: string | null) {
+  currentToken = token && token.trim() ? token.trim() : null;
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (currentToken) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, currentToken);
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Proxy Auth: Could not persist token:", error);
+  }
+}
+
+// Optional hook that fetches a fresh token (e.g. from an identity provider) before expiry.
+// Without one, the user is prompted to enter a new token instead.
+function setTokenRefresher(refresher: (() => Promise<string | null>) | null) {
+  tokenRefresher = refresher;
+}
+
+async function refreshToken(): Promise<string | null> {
+  if (!tokenRefresher) return null;
+  try {
+    const token = await tokenRefresher();
+    if (token && !isTokenExpired(token)) {
+      setToken(token);
+      return currentToken;
+    }
+  } catch (error) {
+    console.error("Proxy Auth: Token refresh failed:", error);
+  }
+  return null;
+}
+
+export const proxyAuthManager = {
+  getToken,
+  setToken,
+  setTokenRefresher,
+  refreshToken,
+};
@@ -0,0 +1,200 @@
+import { ProxyCacheConfig, ProxyCacheRule, ProxyCacheStats, WSBodyEncoding } from '../types';
+import { DEFAULT_PROXY_CACHE_CONFIG, PROXY_CACHE_MAX_ENTRIES, PROXY_CACHE_MAX_BODY_BYTES } from '../constants';
+
+const CACHE_STORAGE_KEY = 'wsProxyCache';
+const CACHEABLE_METHODS = ['GET', 'HEAD'];
+const CACHEABLE_STATUSES = [200, 203];
+
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Uint8Array;
+  encoding: WSBodyEncoding;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Result of looking up a request that a cache rule applies to
+export interface CacheLookup {
+  key: string;
+  rule: ProxyCacheRule;
+  hit: CachedResponse | null;
+}
+
+// Entries live in memory only: they may hold responses fetched with credentials.
+// Map order doubles as LRU order (hits are re-inserted at the end).
+const entries = new Map<string, CachedResponse>();
+let currentConfig: ProxyCacheConfig = loadInitialConfig();
+let hits = 0;
+let misses = 0;
+let onChangeCallback: ((stats: ProxyCacheStats) => void) | null = null;
+
+// Throws with a readable message if `value` is not a usable cache configuration.
+export function parseCacheConfig(value: unknown): ProxyCacheConfig {
+  const candidate = (typeof value === 'string' ? JSON.parse(value) : value) as Partial<ProxyCacheConfig> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error("Cache configuration must be an object.");
+  }
+  if (!Array.isArray(candidate.rules)) {
+    throw new Error('"rules" must be an array.');
+  }
+  const rules = candidate.rules.map((rule, index): ProxyCacheRule => {
+    const label = `Rule ${index + 1}`;
+    if (!rule || typeof rule !== 'object') throw new Error(`${label} must be an object.`);
+    if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${label}: "id" must be a non-empty string.`);
+    if (typeof rule.urlPattern !== 'string') throw new Error(`${label}: "urlPattern" must be a string.`);
+    new RegExp(rule.urlPattern); // Throws on an invalid pattern
+    if (typeof rule.ttlSeconds !== 'number' || !(rule.ttlSeconds > 0)) throw new Error(`${label}: "ttlSeconds" must be a positive number.`);
+    const methods = rule.methods?.map(method => String(method).toUpperCase());
+    if (methods?.some(method => !CACHEABLE_METHODS.includes(method))) {
+      throw new Error(`${label}: only ${CACHEABLE_METHODS.join(' and ')} responses can be cached.`);
+    }
+    if (rule.varyHeaders !== undefined && (!Array.isArray(rule.varyHeaders) || rule.varyHeaders.some(name => typeof name !== 'string'))) {
+      throw new Error(`${label}: "varyHeaders" must be an array of strings.`);
+    }
+    return {
+      id: rule.id,
+      description: rule.description,
+      methods,
+      urlPattern: rule.urlPattern,
+      ttlSeconds: rule.ttlSeconds,
+      varyHeaders: rule.varyHeaders?.map(name => name.toLowerCase()),
+    };
+  });
+  return { enabled: candidate.enabled === true, rules };
+}
+
+function loadInitialConfig(): ProxyCacheConfig {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CACHE_STORAGE_KEY) : null;
+    if (stored) return parseCacheConfig(stored);
+  } catch (error) {
+    console.error("Proxy Cache: Ignoring invalid stored configuration:", error);
+  }
+  return DEFAULT_PROXY_CACHE_CONFIG;
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+function parseCacheControl(value: string | undefined): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  (value || '').split(',').forEach(part => {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) directives.set(name.toLowerCase(), rest.length > 0 ? rest.join('=').replace(/^"|"$/g, '') : true);
+  });
+  return directives;
+}
+
+function getStats(): ProxyCacheStats {
+  const lookups = hits + misses;
+  return { hits, misses, entries: entries.size, hitRate: lookups > 0 ? hits / lookups : undefined };
+}
+
+function notifyChange() {
+  if (onChangeCallback) {
+    onChangeCallback(getStats());
+  }
+}
+
+function findRule(method: string, url: URL): ProxyCacheRule | undefined {
+  const target = `${url.origin}${url.pathname}`;
+  return currentConfig.rules.find(rule =>
+    (rule.methods ?? ['GET']).includes(method) && new RegExp(rule.urlPattern).test(target));
+}
+
+// Returns null when no rule covers the request (or caching is off). Requests sent with
+// Cache-Control: no-cache / no-store (or Pragma: no-cache) skip the stored copy.
+function lookup(method: string, url: string, headers: Record<string, string>): CacheLookup | null {
+  if (!currentConfig.enabled) return null;
+  const upperMethod = (method || '').toUpperCase();
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return null;
+  }
+  const rule = findRule(upperMethod, parsedUrl);
+  if (!rule) return null;
+
+  const varyValues = (rule.varyHeaders ?? []).map(name => `${name}=${getHeader(headers, name) ?? ''}`);
+  const key = [upperMethod, parsedUrl.toString(), ...varyValues].join('\n');
+
+  const requestDirectives = parseCacheControl(getHeader(headers, 'cache-control'));
+  const bypass = requestDirectives.has('no-cache') || requestDirectives.has('no-store') || /no-cache/i.test(getHeader(headers, 'pragma') ?? '');
+  let hit = bypass ? null : entries.get(key) ?? null;
+  if (hit && hit.expiresAt <= Date.now()) {
+    entries.delete(key);
+    hit = null;
+  }
+  if (hit) {
+    entries.delete(key);
+    entries.set(key, hit);
+    hits++;
+  } else {
+    misses++;
+  }
+  notifyChange();
+  return { key, rule, hit };
+}
+
+// Stores an upstream response for a lookup that missed, unless its status, size or
+// Cache-Control forbid it. The TTL is the rule's, shortened by max-age when that is lower.
+function store(lookupResult: CacheLookup, status: number, headers: Record<string, string>, body: Uint8Array, encoding: WSBodyEncoding) {
+  if (!CACHEABLE_STATUSES.includes(status) || body.length > PROXY_CACHE_MAX_BODY_BYTES) return;
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  if (directives.has('no-store') || directives.has('no-cache') || directives.has('private')) return;
+  let ttlSeconds = lookupResult.rule.ttlSeconds;
+  const maxAge = Number(directives.get('max-age'));
+  if (directives.has('max-age') && Number.isFinite(maxAge)) {
+    ttlSeconds = Math.min(ttlSeconds, maxAge);
+  }
+  if (ttlSeconds <= 0) return;
+
+  const now = Date.now();
+  entries.delete(lookupResult.key);
+  entries.set(lookupResult.key, { status, headers, body, encoding, storedAt: now, expiresAt: now + ttlSeconds * 1000 });
+  while (entries.size > PROXY_CACHE_MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+  notifyChange();
+}
+
+function purge() {
+  entries.clear();
+  hits = 0;
+  misses = 0;
+  notifyChange();
+}
+
+function getConfig(): ProxyCacheConfig {
+  return currentConfig;
+}
+
+function setConfig(config: ProxyCacheConfig) {
+  currentConfig = parseCacheConfig(config);
+  entries.clear(); // Rules may have changed what is cacheable and for how long
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(currentConfig));
+  } catch (error) {
+    console.error("Proxy Cache: Could not persist configuration:", error);
+  }
+  notifyChange();
+}
+
+function setOnChange(callback: ((stats: ProxyCacheStats) => void) | null) {
+  onChangeCallback = callback;
+  notifyChange();
+}
+
+export const proxyCacheManager = {
+  lookup,
+  store,
+  purge,
+  getStats,
+  getConfig,
+  setConfig,
+  setOnChange,
+};
@@ -0,0 +1,152 @@
+import { ProxyEndpointHealth, ProxyEndpointState } from '../types';
+import { DEFAULT_WEBSOCKET_PROXY_URL, PROXY_ENDPOINT_FAILOVER_THRESHOLD } from '../constants';
+
+const ENDPOINTS_STORAGE_KEY = 'wsProxyEndpoints';
+const RTT_SMOOTHING = 0.3; // Weight of the newest sample in the moving average
+const FAILURE_PENALTY = 25; // Score lost per consecutive failure
+const MAX_RTT_PENALTY = 40;
+const RTT_PENALTY_PER_MS = 1 / 25; // 1 point per 25ms of average RTT
+
+let endpoints: ProxyEndpointHealth[] = loadInitialEndpoints().map(createHealth);
+let currentIndex = 0;
+let onChangeCallback: ((state: ProxyEndpointState) => void) | null = null;
+
+function createHealth(url: string): ProxyEndpointHealth {
+  return { url, score: 100, consecutiveFailures: 0, totalFailures: 0, totalConnects: 0 };
+}
+
+// Throws with a readable message if any entry is not a ws:// or wss:// URL.
+export function parseEndpointList(value: string | string[]): string[] {
+  const urls = (Array.isArray(value) ? value : value.split(/[\s,]+/))
+    .map(url => url.trim())
+    .filter(Boolean);
+  urls.forEach(url => {
+    let protocol = '';
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new Error(`"${url}" is not a valid URL.`);
+    }
+    if (protocol !== 'ws:' && protocol !== 'wss:') {
+      throw new Error(`"${url}" must use ws:// or wss://.`);
+    }
+  });
+  if (urls.length === 0) {
+    throw new Error("At least one endpoint is required.");
+  }
+  return Array.from(new Set(urls));
+}
+
+// Stored settings win over the build-time env list, which wins over the built-in default.
+function loadInitialEndpoints(): string[] {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(ENDPOINTS_STORAGE_KEY) : null;
+    if (stored) return parseEndpointList(JSON.parse(stored));
+  } catch (error) {
+    console.error("Proxy Endpoints: Ignoring invalid stored endpoints:", error);
+  }
+  try {
+    if (process.env.WEBSOCKET_PROXY_URL) return parseEndpointList(process.env.WEBSOCKET_PROXY_URL);
+  } catch (error) {
+    console.error("Proxy Endpoints: Ignoring invalid WEBSOCKET_PROXY_URL:", error);
+  }
+  return [DEFAULT_WEBSOCKET_PROXY_URL];
+}
+
+function computeScore(health: ProxyEndpointHealth): number {
+  const rttPenalty = health.avgRttMs !== undefined ? Math.min(MAX_RTT_PENALTY, health.avgRttMs * RTT_PENALTY_PER_MS) : 0;
+  return Math.max(0, Math.round(100 - health.consecutiveFailures * FAILURE_PENALTY - rttPenalty));
+}
+
+function getState(): ProxyEndpointState {
+  return { endpoints: endpoints.map(health => ({ ...health })), currentUrl: getCurrentEndpoint() };
+}
+
+function notifyChange() {
+  if (onChangeCallback) {
+    onChangeCallback(getState());
+  }
+}
+
+function updateHealth(url: string, update: (health: ProxyEndpointHealth) => void) {
+  const health = endpoints.find(candidate => candidate.url === url);
+  if (!health) return; // Endpoint was removed from the list while connecting
+  update(health);
+  health.score = computeScore(health);
+  notifyChange();
+}
+
+function getCurrentEndpoint(): string {
+  return endpoints[currentIndex]?.url ?? DEFAULT_WEBSOCKET_PROXY_URL;
+}
+
+function recordRtt(url: string, rttMs: number) {
+  updateHealth(url, health => {
+    health.lastRttMs = Math.round(rttMs);
+    health.avgRttMs = Math.round(health.avgRttMs === undefined ? rttMs : health.avgRttMs * (1 - RTT_SMOOTHING) + rttMs * RTT_SMOOTHING);
+  });
+}
+
+function recordConnectSuccess(url: string, connectTimeMs: number) {
+  updateHealth(url, health => {
+    health.consecutiveFailures = 0;
+    health.totalConnects++;
+  });
+  recordRtt(url, connectTimeMs);
+}
+
+// Returns true if the failure made the client rotate to a different endpoint.
+function recordConnectFailure(url: string): boolean {
+  updateHealth(url, health => {
+    health.consecutiveFailures++;
+    health.totalFailures++;
+    health.lastFailureAt = new Date();
+  });
+  const current = endpoints[currentIndex];
+  if (!current || current.url !== url || endpoints.length < 2) return false;
+  if (current.consecutiveFailures < PROXY_ENDPOINT_FAILOVER_THRESHOLD) return false;
+
+  // Prefer the healthiest other endpoint; on a tie, the next one in list order
+  let bestIndex = -1;
+  for (let offset = 1; offset < endpoints.length; offset++) {
+    const index = (currentIndex + offset) % endpoints.length;
+    if (bestIndex === -1 || endpoints[index].score > endpoints[bestIndex].score) {
+      bestIndex = index;
+    }
+  }
+  console.warn(`Proxy Endpoints: ${current.url} failed ${current.consecutiveFailures} times, rotating to ${endpoints[bestIndex].url}`);
+  currentIndex = bestIndex;
+  notifyChange();
+  return true;
+}
+
+function setEndpoints(urls: string[]) {
+  const parsed = parseEndpointList(urls);
+  const previousUrl = getCurrentEndpoint();
+  // Keep health history for endpoints that stay in the list
+  endpoints = parsed.map(url => endpoints.find(health => health.url === url) ?? createHealth(url));
+  currentIndex = Math.max(0, endpoints.findIndex(health => health.url === previousUrl));
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(ENDPOINTS_STORAGE_KEY, JSON.stringify(parsed));
+  } catch (error) {
+    console.error("Proxy Endpoints: Could not persist endpoints:", error);
+  }
+  notifyChange();
+}
+
+function setOnChange(callback: ((state: ProxyEndpointState) => void) | null) {
+  onChangeCallback = callback;
+  if (onChangeCallback) {
+    onChangeCallback(getState());
+  }
+}
+
+export const proxyEndpointManager = {
+  getCurrentEndpoint,
+  getState,
+  recordRtt,
+  recordConnectSuccess,
+  recordConnectFailure,
+  setEndpoints,
+  setOnChange,
+};
@@ -0,0 +1,379 @@
+import { ProxyTrafficEntry, ProxyTrafficUpdate, WSClientSentMessage, WSHttpRequestMessage, WSBodyEncoding } from '../types';
+import { PROXY_INSPECTOR_MAX_ENTRIES, PROXY_INSPECTOR_MAX_BODY_BYTES, PROXY_INSPECTOR_REDACTED_NAMES } from '../constants';
+import { base64ToBytes, bytesToBase64 } from './bodyEncoding';
+
+const REDACTED = '[REDACTED]';
+const NOTIFY_THROTTLE_MS = 250; // Stream chunks can arrive far faster than React needs to re-render
+
+interface CapturedTraffic {
+  entry: ProxyTrafficEntry;
+  binaryChunks: Uint8Array[]; // Captured bytes of a base64 response, re-encoded on snapshot
+  capturedBytes: number;
+  snapshot: ProxyTrafficEntry | null; // Cached immutable copy handed to the UI
+}
+
+let capturedTraffic: CapturedTraffic[] = [];
+let onChangeCallback: ((entries: ProxyTrafficEntry[]) => void) | null = null;
+let onUpdateCallback: ((update: ProxyTrafficUpdate) => void) | null = null;
+// What changed since the last notification, for the update callback
+let changedTraffic = new Set<CapturedTraffic>();
+let trafficCleared = false;
+let notifyTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+function isRedactedName(name: string): boolean {
+  return PROXY_INSPECTOR_REDACTED_NAMES.includes(name.toLowerCase());
+}
+
+export function redactHeaders(headers: Record<string, string> | undefined): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers || {}).forEach(([name, value]) => {
+    redacted[name] = isRedactedName(name) ? REDACTED : value;
+  });
+  return redacted;
+}
+
+export function redactUrl(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    parsedUrl.searchParams.forEach((_, name) => {
+      if (isRedactedName(name)) parsedUrl.searchParams.set(name, REDACTED);
+    });
+    return parsedUrl.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Redacts the same names inside JSON and form-encoded bodies. Other bodies are kept as sent.
+export function redactBody(body: string, contentType: string): string {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  if (mimeType === 'application/x-www-form-urlencoded') {
+    const params = new URLSearchParams(body);
+    const names = Array.from(params.keys()).filter(isRedactedName);
+    if (names.length === 0) return body;
+    names.forEach(name => params.set(name, REDACTED));
+    return params.toString();
+  }
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+    let redacted = false;
+    try {
+      const text = JSON.stringify(JSON.parse(body), (key, value) => {
+        if (key && isRedactedName(key)) {
+          redacted = true;
+          return REDACTED;
+        }
+        return value;
+      });
+      return redacted ? text : body;
+    } catch {
+      return body; // Not valid JSON after all; nothing to walk
+    }
+  }
+  return body;
+}
+
+// Text of at most `maxBytes` UTF-8 bytes. A character cut in half at the end is dropped.
+function truncateUtf8(bytes: Uint8Array, maxBytes: number): string {
+  return new TextDecoder().decode(bytes.subarray(0, maxBytes), { stream: true });
+}
+
+
+function findTraffic(id: string): CapturedTraffic | undefined {
+  // Newest entries are the likeliest match
+  for (let i = capturedTraffic.length - 1; i >= 0; i--) {
+    if (capturedTraffic[i].entry.id === id) return capturedTraffic[i];
+  }
+  return undefined;
+}
+
+function elapsedSince(start: Date | undefined): number | undefined {
+  return start ? Date.now() - start.getTime() : undefined;
+}
+
+function toSnapshot(traffic: CapturedTraffic): ProxyTrafficEntry {
+  if (!traffic.snapshot) {
+    const { entry } = traffic;
+    // Response bodies arrive in chunks, so they are redacted here, once complete enough to parse
+    let responseBody = entry.responseBodyEncoding === 'utf8'
+      ? redactBody(entry.responseBody, getMimeType(entry.responseHeaders))
+      : entry.responseBody;
+    if (entry.responseBodyEncoding === 'base64' && traffic.binaryChunks.length > 0) {
+      const joined = new Uint8Array(traffic.capturedBytes);
+      let offset = 0;
+      traffic.binaryChunks.forEach(chunk => {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+      });
+      responseBody = bytesToBase64(joined);
+    }
+    traffic.snapshot = { ...entry, responseBody };
+  }
+  return traffic.snapshot;
+}
+
+function getEntries(): ProxyTrafficEntry[] {
+  return capturedTraffic.map(toSnapshot);
+}
+
+function takeUpdate(): ProxyTrafficUpdate {
+  const update = trafficCleared
+    ? { reset: true, entries: getEntries() }
+    : { reset: false, entries: capturedTraffic.filter(traffic => changedTraffic.has(traffic)).map(toSnapshot) }; // Evicted entries drop out
+  changedTraffic = new Set();
+  trafficCleared = false;
+  return update;
+}
+
+function notify() {
+  notifyTimeoutId = null;
+  if (onChangeCallback) onChangeCallback(getEntries());
+  if (onUpdateCallback) onUpdateCallback(takeUpdate());
+}
+
+// `null` means the list itself changed (cleared)
+function markChanged(traffic: CapturedTraffic | null) {
+  if (traffic) {
+    traffic.snapshot = null;
+    if (onUpdateCallback) changedTraffic.add(traffic);
+  } else {
+    trafficCleared = true;
+  }
+  if ((!onChangeCallback && !onUpdateCallback) || notifyTimeoutId) return;
+  notifyTimeoutId = setTimeout(notify, NOTIFY_THROTTLE_MS);
+}
+
+function captureResponseBody(traffic: CapturedTraffic, data: string, encoding: WSBodyEncoding) {
+  const { entry } = traffic;
+  entry.responseBodyEncoding = encoding;
+  const bytes = encoding === 'base64' ? base64ToBytes(data) : new TextEncoder().encode(data);
+  entry.bytes += bytes.length;
+
+  const remaining = PROXY_INSPECTOR_MAX_BODY_BYTES - traffic.capturedBytes;
+  if (remaining <= 0 || bytes.length > remaining) {
+    entry.responseBodyTruncated = true;
+  }
+  if (remaining <= 0) return;
+  if (encoding === 'base64') {
+    const kept = bytes.subarray(0, remaining);
+    traffic.binaryChunks.push(kept);
+    traffic.capturedBytes += kept.length;
+  } else {
+    entry.responseBody += bytes.length > remaining ? truncateUtf8(bytes, remaining) : data;
+    traffic.capturedBytes += Math.min(bytes.length, remaining);
+  }
+}
+
+// Caps the body at PROXY_INSPECTOR_MAX_BODY_BYTES. A base64 body is cut on a 4-character
+// boundary so what is kept still decodes (and exports to HAR) as base64.
+function captureRequestBody(body: string, encoding: WSBodyEncoding | undefined, headers: Record<string, string> | undefined): { body: string; truncated: boolean } {
+  if (encoding === 'base64') {
+    const maxChars = Math.floor(PROXY_INSPECTOR_MAX_BODY_BYTES / 3) * 4;
+    return body.length > maxChars ? { body: body.slice(0, maxChars), truncated: true } : { body, truncated: false };
+  }
+  const captured = redactBody(body, getMimeType(headers));
+  const bytes = new TextEncoder().encode(captured);
+  return bytes.length > PROXY_INSPECTOR_MAX_BODY_BYTES
+    ? { body: truncateUtf8(bytes, PROXY_INSPECTOR_MAX_BODY_BYTES), truncated: true }
+    : { body: captured, truncated: false };
+}
+
+// Called when the server's http_request arrives, before policy and queueing.
+function recordRequest(request: WSHttpRequestMessage) {
+  const { id, payload } = request;
+  const requestBody = payload.body !== undefined ? captureRequestBody(payload.body, payload.encoding, payload.headers) : undefined;
+  const entry: ProxyTrafficEntry = {
+    id,
+    receivedAt: new Date(),
+    method: (payload.method || '').toUpperCase(),
+    url: redactUrl(payload.url || ''),
+    requestHeaders: redactHeaders(payload.headers),
+    requestBody: requestBody?.body,
+    requestBodyEncoding: requestBody ? (payload.encoding || 'utf8') : undefined,
+    requestBodyTruncated: requestBody?.truncated,
+    state: 'pending',
+    responseBody: '',
+    responseBodyEncoding: 'utf8',
+    responseBodyTruncated: false,
+    bytes: 0,
+    chunkCount: 0,
+  };
+  const traffic: CapturedTraffic = { entry, binaryChunks: [], capturedBytes: 0, snapshot: null };
+  capturedTraffic = [...capturedTraffic, traffic].slice(-PROXY_INSPECTOR_MAX_ENTRIES);
+  markChanged(traffic);
+}
+
+// Called when the upstream fetch starts, with the URL and headers after rewrite rules.
+function recordUpstreamRequest(id: string, url: string, headers: Record<string, string>) {
+  const traffic = findTraffic(id);
+  if (!traffic) return;
+  traffic.entry.startedAt = new Date();
+  traffic.entry.url = redactUrl(url);
+  traffic.entry.requestHeaders = redactHeaders(headers);
+  markChanged(traffic);
+}
+
+// Called for every message the proxy sends back, so the inspector sees exactly what the server got.
+function recordClientMessage(message: WSClientSentMessage) {
+  if (!('id' in message) || !message.id) return; // Connection-level messages (ping, hello) belong to no request
+  const traffic = findTraffic(message.id);
+  if (!traffic) return;
+  const { entry } = traffic;
+
+  switch (message.type) {
+    case 'stream_start':
+      entry.status = message.payload.status;
+      entry.responseHeaders = redactHeaders(message.payload.headers);
+      entry.timeToFirstByteMs = elapsedSince(entry.startedAt);
+      break;
+    case 'stream_chunk':
+      entry.chunkCount++;
+      captureResponseBody(traffic, message.payload.data, message.payload.encoding);
+      break;
+    case 'stream_end':
+      entry.state = 'complete';
+      entry.durationMs = elapsedSince(entry.startedAt);
+      break;
+    case 'http_response':
+      entry.status = message.payload.status;
+      entry.responseHeaders = redactHeaders(message.payload.headers);
+      entry.timeToFirstByteMs = elapsedSince(entry.startedAt);
+      captureResponseBody(traffic, message.payload.body, message.payload.encoding);
+      entry.state = 'complete';
+      entry.durationMs = entry.timeToFirstByteMs;
+      break;
+    case 'error':
+      if (message.payload.code === 'HTTP_ERROR') {
+        const response = message.payload.http_response;
+        entry.status = response.status;
+        entry.responseHeaders = redactHeaders(response.headers);
+        entry.timeToFirstByteMs = elapsedSince(entry.startedAt);
+        captureResponseBody(traffic, response.body, response.encoding);
+      }
+      entry.state = 'error';
+      entry.errorCode = message.payload.code;
+      entry.errorMessage = message.payload.message;
+      entry.durationMs = elapsedSince(entry.startedAt);
+      break;
+  }
+  markChanged(traffic);
+}
+
+function clear() {
+  capturedTraffic = [];
+  markChanged(null);
+}
+
+function setOnChange(callback: ((entries: ProxyTrafficEntry[]) => void) | null) {
+  onChangeCallback = callback;
+  if (onChangeCallback) {
+    onChangeCallback(getEntries());
+  }
+}
+
+// Like setOnChange, but after the first call (which resets to every entry) only the entries
+// added or changed since the previous call are passed. For the worker bridge, which would
+// otherwise copy the whole list across on every notification.
+function setOnUpdate(callback: ((update: ProxyTrafficUpdate) => void) | null) {
+  onUpdateCallback = callback;
+  changedTraffic = new Set();
+  trafficCleared = false;
+  if (onUpdateCallback) {
+    onUpdateCallback({ reset: true, entries: getEntries() });
+  }
+}
+
+function toHarHeaders(headers: Record<string, string> | undefined) {
+  return Object.entries(headers || {}).map(([name, value]) => ({ name, value }));
+}
+
+function getMimeType(headers: Record<string, string> | undefined): string {
+  const key = Object.keys(headers || {}).find(name => name.toLowerCase() === 'content-type');
+  return key ? headers![key] : '';
+}
+
+// Builds a HAR 1.2 log of the captured session (or of `captured`, e.g. entries mirrored from the
+// proxy worker). Custom fields are prefixed with "_" per the spec.
+function exportHar(captured: ProxyTrafficEntry[] = getEntries()) {
+  const entries = captured.map(entry => {
+    let queryString: { name: string; value: string }[] = [];
+    try {
+      queryString = Array.from(new URL(entry.url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+      // Leave queryString empty for unparseable URLs
+    }
+    const blockedMs = entry.startedAt ? entry.startedAt.getTime() - entry.receivedAt.getTime() : -1;
+    const waitMs = entry.timeToFirstByteMs ?? 0;
+    const receiveMs = Math.max(0, (entry.durationMs ?? waitMs) - waitMs);
+    return {
+      startedDateTime: entry.receivedAt.toISOString(),
+      time: Math.max(0, blockedMs) + (entry.durationMs ?? 0),
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(entry.requestHeaders),
+        queryString,
+        ...(entry.requestBody !== undefined && {
+          postData: {
+            mimeType: getMimeType(entry.requestHeaders),
+            text: entry.requestBody,
+            ...(entry.requestBodyEncoding === 'base64' && { encoding: 'base64' }),
+            ...(entry.requestBodyTruncated && { comment: 'Body truncated by the proxy inspector' }),
+          },
+        }),
+        headersSize: -1,
+        bodySize: entry.requestBody !== undefined ? entry.requestBody.length : 0,
+      },
+      response: {
+        status: entry.status ?? 0,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(entry.responseHeaders),
+        content: {
+          size: entry.bytes,
+          mimeType: getMimeType(entry.responseHeaders),
+          text: entry.responseBody,
+          ...(entry.responseBodyEncoding === 'base64' && { encoding: 'base64' }),
+          ...(entry.responseBodyTruncated && { comment: 'Body truncated by the proxy inspector' }),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: entry.bytes,
+      },
+      cache: {},
+      timings: {
+        blocked: blockedMs,
+        dns: -1,
+        connect: -1,
+        send: 0,
+        wait: waitMs,
+        receive: receiveMs,
+        ssl: -1,
+      },
+      _proxyRequestId: entry.id,
+      _proxyChunkCount: entry.chunkCount,
+      ...(entry.errorCode && { _proxyError: { code: entry.errorCode, message: entry.errorMessage } }),
+    };
+  });
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Gemini Advanced Chat WS Proxy', version: '1.0' },
+      entries,
+    },
+  };
+}
+
+export const proxyInspector = {
+  recordRequest,
+  recordUpstreamRequest,
+  recordClientMessage,
+  getEntries,
+  clear,
+  setOnChange,
+  setOnUpdate,
+  exportHar,
+};
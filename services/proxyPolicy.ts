@@ -0,0 +1,182 @@
+import { ProxyPolicy, ProxyPolicyRule, ProxyPolicyDecision, ProxyPolicyAction } from '../types';
+import { DEFAULT_PROXY_POLICY, PROXY_POLICY_AUDIT_LIMIT } from '../constants';
+
+const POLICY_STORAGE_KEY = 'wsProxyPolicy';
+
+let currentPolicy: ProxyPolicy = loadInitialPolicy();
+let auditLog: ProxyPolicyDecision[] = [];
+let onAuditChangeCallback: ((log: ProxyPolicyDecision[]) => void) | null = null;
+
+// Throws with a readable message if `value` is not a usable policy.
+export function parseProxyPolicy(value: unknown): ProxyPolicy {
+  const candidate = (typeof value === 'string' ? JSON.parse(value) : value) as Partial<ProxyPolicy> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error("Policy must be an object.");
+  }
+  if (candidate.defaultAction !== 'allow' && candidate.defaultAction !== 'deny') {
+    throw new Error('"defaultAction" must be "allow" or "deny".');
+  }
+  if (!Array.isArray(candidate.rules)) {
+    throw new Error('"rules" must be an array.');
+  }
+  const rules = candidate.rules.map((rule, index): ProxyPolicyRule => {
+    if (!rule || (rule.action !== 'allow' && rule.action !== 'deny')) {
+      throw new Error(`Rule ${index + 1}: "action" must be "allow" or "deny".`);
+    }
+    if (rule.host !== undefined && typeof rule.host !== 'string') {
+      throw new Error(`Rule ${index + 1}: "host" must be a string.`);
+    }
+    if (rule.pathPrefix !== undefined && typeof rule.pathPrefix !== 'string') {
+      throw new Error(`Rule ${index + 1}: "pathPrefix" must be a string.`);
+    }
+    if (rule.methods !== undefined && (!Array.isArray(rule.methods) || rule.methods.some(m => typeof m !== 'string'))) {
+      throw new Error(`Rule ${index + 1}: "methods" must be an array of strings.`);
+    }
+    return {
+      action: rule.action,
+      host: rule.host?.toLowerCase(),
+      pathPrefix: rule.pathPrefix,
+      methods: rule.methods?.map(m => m.toUpperCase()),
+    };
+  });
+  return { defaultAction: candidate.defaultAction, rules };
+}
+
+// Stored settings win over the build-time env policy, which wins over the built-in default.
+function loadInitialPolicy(): ProxyPolicy {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(POLICY_STORAGE_KEY) : null;
+    if (stored) return parseProxyPolicy(stored);
+  } catch (error) {
+    console.error("Proxy Policy: Ignoring invalid stored policy:", error);
+  }
+  try {
+    if (process.env.WEBSOCKET_PROXY_POLICY) return parseProxyPolicy(process.env.WEBSOCKET_PROXY_POLICY);
+  } catch (error) {
+    console.error("Proxy Policy: Ignoring invalid WEBSOCKET_PROXY_POLICY:", error);
+  }
+  return DEFAULT_PROXY_POLICY;
+}
+
+// Exact hostname, or "*.example.com" for any subdomain of example.com.
+export function hostMatches(pattern: string, hostname: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.slice(1); // ".example.com"
+    return hostname.endsWith(suffix) && hostname.length > suffix.length;
+  }
+  return pattern === hostname;
+}
+
+function ruleMatches(rule: ProxyPolicyRule, method: string, url: URL): boolean {
+  if (rule.host && !hostMatches(rule.host, url.hostname.toLowerCase())) return false;
+  if (rule.pathPrefix && !url.pathname.startsWith(rule.pathPrefix)) return false;
+  if (rule.methods && rule.methods.length > 0 && !rule.methods.includes(method)) return false;
+  return true;
+}
+
+function describeRule(rule: ProxyPolicyRule, index: number): string {
+  const parts = [
+    rule.methods?.length ? rule.methods.join('|') : '*',
+    `${rule.host || '*'}${rule.pathPrefix || ''}`,
+  ];
+  return `rule ${index + 1} (${rule.action} ${parts.join(' ')})`;
+}
+
+function recordDecision(decision: ProxyPolicyDecision) {
+  auditLog = [decision, ...auditLog].slice(0, PROXY_POLICY_AUDIT_LIMIT);
+  if (onAuditChangeCallback) {
+    onAuditChangeCallback(auditLog);
+  }
+}
+
+// The policy's verdict on a request, without logging it
+function decide(method: string, url: string): Omit<ProxyPolicyDecision, 'timestamp' | 'requestId'> {
+  const upperMethod = (method || '').toUpperCase();
+  let action: ProxyPolicyAction = currentPolicy.defaultAction;
+  let reason = `default (${currentPolicy.defaultAction})`;
+  let loggedUrl = url;
+
+  let parsedUrl: URL | null = null;
+  try {
+    parsedUrl = new URL(url);
+    loggedUrl = `${parsedUrl.origin}${parsedUrl.pathname}`;
+  } catch {
+    action = 'deny';
+    reason = 'invalid URL';
+  }
+
+  if (parsedUrl) {
+    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+      action = 'deny';
+      reason = `unsupported protocol ${parsedUrl.protocol}`;
+    } else {
+      const matchIndex = currentPolicy.rules.findIndex(rule => ruleMatches(rule, upperMethod, parsedUrl!));
+      if (matchIndex !== -1) {
+        action = currentPolicy.rules[matchIndex].action;
+        reason = describeRule(currentPolicy.rules[matchIndex], matchIndex);
+      }
+    }
+  }
+
+  return { method: upperMethod, url: loggedUrl, allowed: action === 'allow', reason };
+}
+
+// Decides whether a proxied request may reach the network, and logs the decision.
+function evaluate(requestId: string, method: string, url: string): ProxyPolicyDecision {
+  const decision: ProxyPolicyDecision = { timestamp: new Date(), requestId, ...decide(method, url) };
+  recordDecision(decision);
+  return decision;
+}
+
+// Same verdict as evaluate(), left out of the audit log: for the client's own follow-up
+// traffic (e.g. the CORS probe), which the relay never asked for.
+function isAllowed(method: string, url: string): boolean {
+  return decide(method, url).allowed;
+}
+
+function getPolicy(): ProxyPolicy {
+  return currentPolicy;
+}
+
+function setPolicy(policy: ProxyPolicy) {
+  currentPolicy = parseProxyPolicy(policy);
+  if (typeof localStorage === 'undefined') return; // e.g. inside the proxy worker
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(currentPolicy));
+  } catch (error) {
+    console.error("Proxy Policy: Could not persist policy:", error);
+  }
+}
+
+function resetPolicy() {
+  try {
+    localStorage.removeItem(POLICY_STORAGE_KEY);
+  } catch (error) {
+    console.error("Proxy Policy: Could not clear stored policy:", error);
+  }
+  currentPolicy = loadInitialPolicy();
+}
+
+function clearAuditLog() {
+  auditLog = [];
+  if (onAuditChangeCallback) {
+    onAuditChangeCallback(auditLog);
+  }
+}
+
+function setOnAuditChange(callback: ((log: ProxyPolicyDecision[]) => void) | null) {
+  onAuditChangeCallback = callback;
+  if (onAuditChangeCallback) {
+    onAuditChangeCallback(auditLog);
+  }
+}
+
+export const proxyPolicyManager = {
+  evaluate,
+  isAllowed,
+  getPolicy,
+  setPolicy,
+  resetPolicy,
+  clearAuditLog,
+  setOnAuditChange,
+};
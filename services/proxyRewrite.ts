@@ -0,0 +1,249 @@
+import { ProxyRewriteRule, ProxyRewriteAction, ProxyRewriteTarget, ProxyRewriteOp } from '../types';
+import { DEFAULT_PROXY_REWRITE_RULES } from '../constants';
+
+const RULES_STORAGE_KEY = 'wsProxyRewriteRules';
+const SECRETS_STORAGE_KEY = 'wsProxySecrets';
+const SECRET_PLACEHOLDER_PATTERN = /\{\{secret:([\w.-]+)\}\}/g;
+
+const REWRITE_TARGETS: ProxyRewriteTarget[] = ['requestHeader', 'queryParam', 'responseHeader'];
+const REWRITE_OPS: ProxyRewriteOp[] = ['add', 'replace', 'set', 'remove'];
+
+export interface RequestRewriteResult {
+  url: string;
+  headers: Record<string, string>;
+  appliedRuleIds: string[];
+  responseActions: ProxyRewriteAction[]; // Applied to the upstream response headers later
+}
+
+let currentRules: ProxyRewriteRule[] = loadStored(RULES_STORAGE_KEY, parseRewriteRules) ?? DEFAULT_PROXY_REWRITE_RULES;
+let secrets: Record<string, string> = loadStored(SECRETS_STORAGE_KEY, parseSecrets) ?? {};
+
+function loadStored<T>(key: string, parse: (value: unknown) => T): T | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    return stored ? parse(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.error(`Proxy Rewrite: Ignoring invalid stored ${key}:`, error);
+    return null;
+  }
+}
+
+function persist(key: string, value: unknown) {
+  if (typeof localStorage === 'undefined') return; // e.g. inside the proxy worker, which gets rules from the UI
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Proxy Rewrite: Could not persist ${key}:`, error);
+  }
+}
+
+function parseSecrets(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error("Secrets must be an object of strings.");
+  }
+  const result: Record<string, string> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([name, secret]) => {
+    if (typeof secret === 'string') result[name] = secret;
+  });
+  return result;
+}
+
+// Throws with a readable message if `value` is not a usable rule list.
+export function parseRewriteRules(value: unknown): ProxyRewriteRule[] {
+  const candidate = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(candidate)) {
+    throw new Error("Rewrite rules must be an array.");
+  }
+  return candidate.map((rule, index): ProxyRewriteRule => {
+    const label = `Rule ${index + 1}`;
+    if (!rule || typeof rule !== 'object') throw new Error(`${label} must be an object.`);
+    if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${label}: "id" must be a non-empty string.`);
+    const match = rule.match ?? {};
+    if (typeof match !== 'object') throw new Error(`${label}: "match" must be an object.`);
+    if (match.urlPattern !== undefined) {
+      if (typeof match.urlPattern !== 'string') throw new Error(`${label}: "match.urlPattern" must be a string.`);
+      new RegExp(match.urlPattern); // Throws on an invalid pattern
+    }
+    if (match.methods !== undefined && (!Array.isArray(match.methods) || match.methods.some((m: unknown) => typeof m !== 'string'))) {
+      throw new Error(`${label}: "match.methods" must be an array of strings.`);
+    }
+    if (match.header !== undefined) {
+      if (typeof match.header?.name !== 'string') throw new Error(`${label}: "match.header.name" must be a string.`);
+      if (match.header.valuePattern !== undefined) new RegExp(match.header.valuePattern);
+    }
+    if (!Array.isArray(rule.actions)) throw new Error(`${label}: "actions" must be an array.`);
+    const actions = rule.actions.map((action: ProxyRewriteAction, actionIndex: number): ProxyRewriteAction => {
+      const actionLabel = `${label}, action ${actionIndex + 1}`;
+      if (!REWRITE_TARGETS.includes(action?.target)) throw new Error(`${actionLabel}: "target" must be one of ${REWRITE_TARGETS.join(', ')}.`);
+      if (!REWRITE_OPS.includes(action.op)) throw new Error(`${actionLabel}: "op" must be one of ${REWRITE_OPS.join(', ')}.`);
+      if (typeof action.name !== 'string' || !action.name) throw new Error(`${actionLabel}: "name" must be a non-empty string.`);
+      if (action.op !== 'remove' && typeof action.value !== 'string') throw new Error(`${actionLabel}: "value" is required for "${action.op}".`);
+      return { target: action.target, op: action.op, name: action.name, value: action.value };
+    });
+    return {
+      id: rule.id,
+      description: typeof rule.description === 'string' ? rule.description : undefined,
+      enabled: rule.enabled !== false,
+      match: {
+        methods: match.methods?.map((m: string) => m.toUpperCase()),
+        urlPattern: match.urlPattern,
+        header: match.header ? { name: match.header.name, valuePattern: match.header.valuePattern } : undefined,
+      },
+      actions,
+    };
+  });
+}
+
+function findHeaderKey(headers: Record<string, string>, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  return Object.keys(headers).find(key => key.toLowerCase() === lowerName);
+}
+
+// Expands {{secret:NAME}} placeholders; returns null if a referenced secret is not set.
+function resolveValue(value: string | undefined): string | null {
+  let missing: string | null = null;
+  const resolved = (value ?? '').replace(SECRET_PLACEHOLDER_PATTERN, (_, name: string) => {
+    if (secrets[name] === undefined || secrets[name] === '') {
+      missing = name;
+      return '';
+    }
+    return secrets[name];
+  });
+  if (missing) {
+    console.warn(`Proxy Rewrite: Secret "${missing}" is not set, skipping action.`);
+    return null;
+  }
+  return resolved;
+}
+
+function ruleMatches(rule: ProxyRewriteRule, method: string, url: URL, headers: Record<string, string>): boolean {
+  const { methods, urlPattern, header } = rule.match;
+  if (methods && methods.length > 0 && !methods.includes(method)) return false;
+  if (urlPattern && !new RegExp(urlPattern).test(`${url.origin}${url.pathname}`)) return false;
+  if (header) {
+    const key = findHeaderKey(headers, header.name);
+    if (key === undefined) return false;
+    if (header.valuePattern && !new RegExp(header.valuePattern).test(headers[key])) return false;
+  }
+  return true;
+}
+
+function applyToHeaders(headers: Record<string, string>, action: ProxyRewriteAction) {
+  const existingKey = findHeaderKey(headers, action.name);
+  if (action.op === 'remove') {
+    if (existingKey !== undefined) delete headers[existingKey];
+    return;
+  }
+  if (action.op === 'add' && existingKey !== undefined) return;
+  if (action.op === 'replace' && existingKey === undefined) return;
+  const value = resolveValue(action.value);
+  if (value === null) return;
+  if (existingKey !== undefined) delete headers[existingKey];
+  headers[action.name] = value;
+}
+
+function applyToQuery(url: URL, action: ProxyRewriteAction) {
+  const exists = url.searchParams.has(action.name);
+  if (action.op === 'remove') {
+    url.searchParams.delete(action.name);
+    return;
+  }
+  if (action.op === 'add' && exists) return;
+  if (action.op === 'replace' && !exists) return;
+  const value = resolveValue(action.value);
+  if (value === null) return;
+  url.searchParams.set(action.name, value);
+}
+
+// Runs every enabled, matching rule against an outgoing request. Never throws: a request
+// whose URL cannot be parsed is passed through untouched, as before.
+function applyRequestRules(method: string, url: string, headers: Record<string, string>): RequestRewriteResult {
+  const result: RequestRewriteResult = { url, headers: { ...headers }, appliedRuleIds: [], responseActions: [] };
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    console.error(`Proxy Rewrite: Could not parse URL ${url}, skipping rewrite rules.`, error);
+    return result;
+  }
+
+  const upperMethod = method.toUpperCase();
+  currentRules.forEach(rule => {
+    if (rule.enabled === false || !ruleMatches(rule, upperMethod, parsedUrl, headers)) return;
+    result.appliedRuleIds.push(rule.id);
+    rule.actions.forEach(action => {
+      if (action.target === 'requestHeader') {
+        applyToHeaders(result.headers, action);
+      } else if (action.target === 'queryParam') {
+        applyToQuery(parsedUrl, action);
+      } else {
+        result.responseActions.push(action);
+      }
+    });
+  });
+
+  if (result.appliedRuleIds.length > 0) {
+    result.url = parsedUrl.toString();
+  }
+  return result;
+}
+
+function applyResponseRules(headers: Record<string, string>, actions: ProxyRewriteAction[]): Record<string, string> {
+  if (actions.length === 0) return headers;
+  const rewritten = { ...headers };
+  actions.forEach(action => applyToHeaders(rewritten, action));
+  return rewritten;
+}
+
+function getRules(): ProxyRewriteRule[] {
+  return currentRules;
+}
+
+function setRules(rules: ProxyRewriteRule[]) {
+  currentRules = parseRewriteRules(rules);
+  persist(RULES_STORAGE_KEY, currentRules);
+}
+
+function resetRules() {
+  currentRules = DEFAULT_PROXY_REWRITE_RULES;
+  try {
+    localStorage.removeItem(RULES_STORAGE_KEY);
+  } catch (error) {
+    console.error("Proxy Rewrite: Could not clear stored rules:", error);
+  }
+}
+
+function getSecret(name: string): string {
+  return secrets[name] ?? '';
+}
+
+function getSecrets(): Record<string, string> {
+  return secrets;
+}
+
+function setSecrets(values: Record<string, string>) {
+  secrets = parseSecrets(values);
+  persist(SECRETS_STORAGE_KEY, secrets);
+}
+
+function setSecret(name: string, value: string) {
+  secrets = { ...secrets };
+  if (value) {
+    secrets[name] = value;
+  } else {
+    delete secrets[name];
+  }
+  persist(SECRETS_STORAGE_KEY, secrets);
+}
+
+export const proxyRewriteManager = {
+  applyRequestRules,
+  applyResponseRules,
+  getRules,
+  setRules,
+  resetRules,
+  getSecret,
+  setSecret,
+  getSecrets,
+  setSecrets,
+};
@@ -0,0 +1,132 @@
+import { ProxyTrafficEntry, ProxyTrafficUpdate, ProxyWorkerCommand, ProxyWorkerConfig, ProxyWorkerEvent } from '../types';
+import { webSocketProxyManager } from './webSocketService';
+import { setHostRequestTiming } from './requestTiming';
+import { proxyPolicyManager } from './proxyPolicy';
+import { proxyRewriteManager } from './proxyRewrite';
+import { proxyInspector } from './proxyInspector';
+import { proxyCacheManager } from './proxyCache';
+import { proxyEndpointManager } from './proxyEndpoints';
+import { proxyAuthManager } from './proxyAuth';
+import { rateLimitManager, RateLimitError } from './rateLimiter';
+import { usageLedgerManager } from './usageLedger';
+
+// Web Worker entry: runs the proxy executor (socket, ping loop, upstream fetches) off the main
+// thread so rendering in the chat UI cannot stall pings or chunk forwarding. Talks to
+// proxyWorkerClient.ts through ProxyWorkerCommand / ProxyWorkerEvent messages.
+
+const workerScope = globalThis as unknown as {
+  postMessage: (event: ProxyWorkerEvent) => void;
+  onmessage: ((event: MessageEvent<ProxyWorkerCommand>) => void) | null;
+};
+
+let appliedConfig: Partial<Record<keyof ProxyWorkerConfig, string>> = {};
+let nextCallId = 1;
+const pendingTokenRefreshes = new Map<number, (token: string | null) => void>();
+// Bodies (up to PROXY_INSPECTOR_MAX_BODY_BYTES each) only cross to the UI while the inspector shows them
+let sendTrafficBodies = false;
+
+function post(event: ProxyWorkerEvent) {
+  workerScope.postMessage(event);
+}
+
+function withoutBodies(entry: ProxyTrafficEntry): ProxyTrafficEntry {
+  return { ...entry, requestBody: undefined, responseBody: '' };
+}
+
+function postTraffic(update: ProxyTrafficUpdate) {
+  post({ type: 'traffic', update: sendTrafficBodies ? update : { ...update, entries: update.entries.map(withoutBodies) } });
+}
+
+// Sections are compared as JSON so a snapshot that repeats the current cache or rate limit
+// config does not wipe cached responses or refill buckets.
+function applyConfig(config: ProxyWorkerConfig) {
+  const changed = (key: keyof ProxyWorkerConfig) => {
+    const serialized = JSON.stringify(config[key]);
+    if (appliedConfig[key] === serialized) return false;
+    appliedConfig = { ...appliedConfig, [key]: serialized };
+    return true;
+  };
+  if (changed('policy')) proxyPolicyManager.setPolicy(config.policy);
+  if (changed('rewriteRules')) proxyRewriteManager.setRules(config.rewriteRules);
+  if (changed('secrets')) proxyRewriteManager.setSecrets(config.secrets);
+  if (changed('cacheConfig')) proxyCacheManager.setConfig(config.cacheConfig);
+  if (changed('rateLimitConfig')) rateLimitManager.setConfig(config.rateLimitConfig);
+  if (changed('endpoints')) proxyEndpointManager.setEndpoints(config.endpoints);
+  if (changed('token')) proxyAuthManager.setToken(config.token);
+}
+
+async function acquireRateLimit(callId: number, host?: string, model?: string) {
+  try {
+    await rateLimitManager.acquire({ host, model });
+    post({ type: 'rate_limit_result', callId });
+  } catch (error) {
+    // Without an abort signal, acquire only ever fails with a RateLimitError
+    const { ruleId, key, retryAfterMs } = error as RateLimitError;
+    post({ type: 'rate_limit_result', callId, error: { ruleId, key, retryAfterMs } });
+  }
+}
+
+workerScope.onmessage = (event) => {
+  const command = event.data;
+  switch (command.type) {
+    case 'connect':
+      webSocketProxyManager.connect(command.token);
+      break;
+    case 'disconnect':
+      webSocketProxyManager.disconnect();
+      break;
+    case 'drain':
+      webSocketProxyManager.drain(command.timeoutMs);
+      break;
+    case 'update_token':
+      webSocketProxyManager.updateToken(command.token);
+      break;
+    case 'set_concurrency_limits':
+      webSocketProxyManager.setConcurrencyLimits(command.limits);
+      break;
+    case 'set_host_request_timing':
+      setHostRequestTiming(command.hostPattern, command.overrides);
+      break;
+    case 'config':
+      applyConfig(command.config);
+      break;
+    case 'clear_traffic':
+      proxyInspector.clear();
+      break;
+    case 'set_traffic_bodies':
+      sendTrafficBodies = command.enabled;
+      // The UI holds the entries without bodies; resend them in full
+      if (command.enabled) postTraffic({ reset: true, entries: proxyInspector.getEntries() });
+      break;
+    case 'clear_policy_audit':
+      proxyPolicyManager.clearAuditLog();
+      break;
+    case 'purge_cache':
+      proxyCacheManager.purge();
+      break;
+    case 'acquire_rate_limit':
+      acquireRateLimit(command.callId, command.host, command.model);
+      break;
+    case 'token_refreshed':
+      pendingTokenRefreshes.get(command.callId)?.(command.token);
+      pendingTokenRefreshes.delete(command.callId);
+      break;
+  }
+};
+
+webSocketProxyManager.setOnStatusChange((status, details) => post({ type: 'status', status, details }));
+webSocketProxyManager.setOnStatsChange((stats) => post({ type: 'stats', stats }));
+webSocketProxyManager.setOnAuthRequired((reason) => post({ type: 'auth_required', reason }));
+proxyInspector.setOnUpdate(postTraffic);
+proxyPolicyManager.setOnAuditChange((log) => post({ type: 'policy_audit', log }));
+proxyCacheManager.setOnChange((stats) => post({ type: 'cache_stats', stats }));
+proxyEndpointManager.setOnChange((state) => post({ type: 'endpoints', state }));
+rateLimitManager.setOnChange((buckets) => post({ type: 'rate_limits', buckets }));
+usageLedgerManager.setOnRecord((source, model, usage) => post({ type: 'usage', source, model, usage }));
+
+// Token refresh hooks are installed on the UI side; ask it before the JWT expires
+proxyAuthManager.setTokenRefresher(() => new Promise(resolve => {
+  const callId = nextCallId++;
+  pendingTokenRefreshes.set(callId, resolve);
+  post({ type: 'refresh_token', callId });
+}));
@@ -0,0 +1,273 @@
+import {
+  WebSocketProxyStatus,
+  WebSocketProxyStats,
+  ProxyRequestTimingConfig,
+  ProxyWorkerCommand,
+  ProxyWorkerConfig,
+  ProxyWorkerEvent,
+  ProxyTrafficEntry,
+  ProxyTrafficUpdate,
+  ProxyPolicyDecision,
+  ProxyCacheStats,
+  ProxyEndpointState,
+  RateLimitBucketState,
+} from '../types';
+import { proxyPolicyManager } from './proxyPolicy';
+import { proxyRewriteManager } from './proxyRewrite';
+import { proxyCacheManager } from './proxyCache';
+import { proxyEndpointManager } from './proxyEndpoints';
+import { proxyAuthManager } from './proxyAuth';
+import { rateLimitManager, RateLimitError, RateLimitTarget } from './rateLimiter';
+import { usageLedgerManager } from './usageLedger';
+import { tabCoordinator } from './tabCoordinator';
+import { parseTimingOverrides } from './requestTiming';
+import { PROXY_INSPECTOR_MAX_ENTRIES } from '../constants';
+
+// UI side of the proxy worker bridge. `webSocketProxyManager` keeps the API of the in-thread
+// manager in webSocketService.ts; `proxyWorkerClient` covers the state the executor owns
+// (traffic, audit log, cache stats, endpoint health, rate limit buckets). The worker starts
+// on first use and gets the configuration pushed as a snapshot whenever it changes.
+
+let worker: Worker | null = null;
+let nextCallId = 1;
+let trafficBodies = false; // Whether the worker should include bodies in traffic events
+const pendingRateLimits = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+
+// Last state reported by the worker, replayed to callbacks as they are set
+let status: { status: WebSocketProxyStatus; details?: string } = { status: WebSocketProxyStatus.IDLE };
+let stats: WebSocketProxyStats = { inFlight: 0, queued: 0 };
+let traffic: ProxyTrafficEntry[] = [];
+let policyAudit: ProxyPolicyDecision[] = [];
+let cacheStats: ProxyCacheStats = proxyCacheManager.getStats();
+let endpointState: ProxyEndpointState = proxyEndpointManager.getState();
+let rateLimitBuckets: RateLimitBucketState[] = [];
+
+let onStatusChangeCallback: ((status: WebSocketProxyStatus, details?: string) => void) | null = null;
+let onStatsChangeCallback: ((stats: WebSocketProxyStats) => void) | null = null;
+let onAuthRequiredCallback: ((reason: string) => void) | null = null;
+let onTrafficChangeCallback: ((entries: ProxyTrafficEntry[]) => void) | null = null;
+let onPolicyAuditChangeCallback: ((log: ProxyPolicyDecision[]) => void) | null = null;
+let onCacheStatsChangeCallback: ((stats: ProxyCacheStats) => void) | null = null;
+let onEndpointStateChangeCallback: ((state: ProxyEndpointState) => void) | null = null;
+let onRateLimitChangeCallback: ((buckets: RateLimitBucketState[]) => void) | null = null;
+
+function readConfig(): ProxyWorkerConfig {
+  return {
+    policy: proxyPolicyManager.getPolicy(),
+    rewriteRules: proxyRewriteManager.getRules(),
+    secrets: proxyRewriteManager.getSecrets(),
+    cacheConfig: proxyCacheManager.getConfig(),
+    rateLimitConfig: rateLimitManager.getConfig(),
+    endpoints: proxyEndpointManager.getState().endpoints.map(endpoint => endpoint.url),
+    token: proxyAuthManager.getToken(),
+  };
+}
+
+// Entries are matched on id and receive time, since a server may reuse request ids
+function applyTrafficUpdate(entries: ProxyTrafficEntry[], update: ProxyTrafficUpdate): ProxyTrafficEntry[] {
+  if (update.reset) return update.entries;
+  const merged = [...entries];
+  update.entries.forEach(entry => {
+    let index = merged.length - 1;
+    while (index >= 0 && (merged[index].id !== entry.id || merged[index].receivedAt.getTime() !== entry.receivedAt.getTime())) index--;
+    if (index >= 0) merged[index] = entry;
+    else merged.push(entry);
+  });
+  return merged.slice(-PROXY_INSPECTOR_MAX_ENTRIES);
+}
+
+function handleEvent(event: ProxyWorkerEvent) {
+  switch (event.type) {
+    case 'status':
+      status = { status: event.status, details: event.details };
+      onStatusChangeCallback?.(event.status, event.details);
+      break;
+    case 'stats':
+      stats = event.stats;
+      onStatsChangeCallback?.(event.stats);
+      break;
+    case 'auth_required':
+      onAuthRequiredCallback?.(event.reason);
+      break;
+    case 'traffic':
+      traffic = applyTrafficUpdate(traffic, event.update);
+      onTrafficChangeCallback?.(traffic);
+      break;
+    case 'policy_audit':
+      policyAudit = event.log;
+      onPolicyAuditChangeCallback?.(event.log);
+      break;
+    case 'cache_stats':
+      cacheStats = event.stats;
+      onCacheStatsChangeCallback?.(event.stats);
+      break;
+    case 'endpoints':
+      endpointState = event.state;
+      onEndpointStateChangeCallback?.(event.state);
+      break;
+    case 'rate_limits':
+      rateLimitBuckets = event.buckets;
+      onRateLimitChangeCallback?.(event.buckets);
+      break;
+    case 'usage':
+      usageLedgerManager.record(event.source, event.model, event.usage);
+      break;
+    case 'rate_limit_result': {
+      const pending = pendingRateLimits.get(event.callId);
+      pendingRateLimits.delete(event.callId);
+      if (!pending) break;
+      if (event.error) {
+        pending.reject(new RateLimitError(event.error.ruleId, event.error.key, event.error.retryAfterMs));
+      } else {
+        pending.resolve();
+      }
+      break;
+    }
+    case 'refresh_token':
+      proxyAuthManager.refreshToken().then(token => post({ type: 'token_refreshed', callId: event.callId, token }));
+      break;
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./proxyWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ProxyWorkerEvent>) => handleEvent(event.data);
+    worker.onerror = (event) => {
+      console.error("Proxy Worker: Uncaught error in the proxy worker:", event.message);
+      handleEvent({ type: 'status', status: WebSocketProxyStatus.ERROR, details: `Proxy worker failed: ${event.message}` });
+    };
+    worker.postMessage({ type: 'config', config: readConfig() } satisfies ProxyWorkerCommand);
+    if (trafficBodies) worker.postMessage({ type: 'set_traffic_bodies', enabled: true } satisfies ProxyWorkerCommand);
+  }
+  return worker;
+}
+
+function post(command: ProxyWorkerCommand) {
+  getWorker().postMessage(command);
+}
+
+// Pushes the UI's current configuration; call after saving any proxy setting
+function syncConfig() {
+  if (worker) post({ type: 'config', config: readConfig() });
+}
+
+// Takes a configuration saved in another tab: stores the sections that differ from this tab's
+// and pushes the result to the worker. Returns the sections that changed.
+function applySharedConfig(config: ProxyWorkerConfig): (keyof ProxyWorkerConfig)[] {
+  const current = readConfig();
+  const changed = (Object.keys(config) as (keyof ProxyWorkerConfig)[])
+    .filter(key => JSON.stringify(config[key]) !== JSON.stringify(current[key]));
+  if (changed.includes('policy')) proxyPolicyManager.setPolicy(config.policy);
+  if (changed.includes('rewriteRules')) proxyRewriteManager.setRules(config.rewriteRules);
+  if (changed.includes('secrets')) proxyRewriteManager.setSecrets(config.secrets);
+  if (changed.includes('cacheConfig')) proxyCacheManager.setConfig(config.cacheConfig);
+  if (changed.includes('rateLimitConfig')) rateLimitManager.setConfig(config.rateLimitConfig);
+  if (changed.includes('endpoints')) proxyEndpointManager.setEndpoints(config.endpoints);
+  if (changed.includes('token')) proxyAuthManager.setToken(config.token);
+  if (changed.length > 0) syncConfig();
+  return changed;
+}
+
+// Chat calls share the worker's buckets with proxied traffic; in a follower tab that is the
+// leader tab's worker. With rate limiting off this resolves without starting the worker.
+function acquireRateLimit(target: RateLimitTarget): Promise<void> {
+  if (!rateLimitManager.getConfig().enabled) return Promise.resolve();
+  const viaLeader = tabCoordinator.acquireRateLimit(target);
+  if (viaLeader) return viaLeader;
+  return new Promise((resolve, reject) => {
+    const callId = nextCallId++;
+    pendingRateLimits.set(callId, { resolve, reject });
+    post({ type: 'acquire_rate_limit', callId, host: target.host, model: target.model });
+  });
+}
+
+// Turn on while the traffic inspector is open; other times entries arrive without bodies
+function setTrafficBodies(enabled: boolean) {
+  if (enabled === trafficBodies) return;
+  trafficBodies = enabled;
+  if (worker) post({ type: 'set_traffic_bodies', enabled });
+}
+
+function connect(jwtToken: string) {
+  post({ type: 'connect', token: jwtToken });
+}
+
+function disconnect() {
+  if (worker) post({ type: 'disconnect' });
+}
+
+function drain(timeoutMs?: number) {
+  if (worker) post({ type: 'drain', timeoutMs });
+}
+
+function updateToken(jwtToken: string | null) {
+  if (worker) post({ type: 'update_token', token: jwtToken });
+}
+
+function setConcurrencyLimits(limits: { maxInFlight?: number; maxQueued?: number }) {
+  post({ type: 'set_concurrency_limits', limits });
+}
+
+// Validated here too, so bad overrides throw in the caller rather than inside the worker
+function setHostRequestTiming(hostPattern: string, overrides: Partial<ProxyRequestTimingConfig> | null) {
+  const parsed = overrides ? parseTimingOverrides(overrides, `Host "${hostPattern}"`) : null;
+  post({ type: 'set_host_request_timing', hostPattern, overrides: parsed });
+}
+
+function setOnStatusChange(callback: ((status: WebSocketProxyStatus, details?: string) => void) | null) {
+  onStatusChangeCallback = callback;
+  callback?.(status.status, status.details);
+}
+
+function setOnStatsChange(callback: ((stats: WebSocketProxyStats) => void) | null) {
+  onStatsChangeCallback = callback;
+  callback?.(stats);
+}
+
+function setOnAuthRequired(callback: ((reason: string) => void) | null) {
+  onAuthRequiredCallback = callback;
+}
+
+export const webSocketProxyManager = {
+  connect,
+  disconnect,
+  drain,
+  setOnStatusChange,
+  setOnStatsChange,
+  setOnAuthRequired,
+  updateToken,
+  setConcurrencyLimits,
+  setHostRequestTiming,
+};
+
+export const proxyWorkerClient = {
+  getConfig: readConfig,
+  syncConfig,
+  applySharedConfig,
+  acquireRateLimit,
+  setTrafficBodies,
+  clearTraffic: () => { if (worker) post({ type: 'clear_traffic' }); },
+  clearPolicyAudit: () => { if (worker) post({ type: 'clear_policy_audit' }); },
+  purgeCache: () => { if (worker) post({ type: 'purge_cache' }); },
+  setOnTrafficChange: (callback: ((entries: ProxyTrafficEntry[]) => void) | null) => {
+    onTrafficChangeCallback = callback;
+    callback?.(traffic);
+  },
+  setOnPolicyAuditChange: (callback: ((log: ProxyPolicyDecision[]) => void) | null) => {
+    onPolicyAuditChangeCallback = callback;
+    callback?.(policyAudit);
+  },
+  setOnCacheStatsChange: (callback: ((stats: ProxyCacheStats) => void) | null) => {
+    onCacheStatsChangeCallback = callback;
+    callback?.(cacheStats);
+  },
+  setOnEndpointStateChange: (callback: ((state: ProxyEndpointState) => void) | null) => {
+    onEndpointStateChangeCallback = callback;
+    callback?.(endpointState);
+  },
+  setOnRateLimitChange: (callback: ((buckets: RateLimitBucketState[]) => void) | null) => {
+    onRateLimitChangeCallback = callback;
+    callback?.(rateLimitBuckets);
+  },
+};
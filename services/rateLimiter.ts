@@ -0,0 +1,242 @@
+import { RateLimitBucketRule, RateLimitBucketState, RateLimitConfig } from '../types';
+import { DEFAULT_RATE_LIMIT_CONFIG } from '../constants';
+import { hostMatches } from './proxyPolicy';
+import { delay } from './requestTiming';
+
+const RATE_LIMIT_STORAGE_KEY = 'wsProxyRateLimits';
+const LEVEL_REFRESH_INTERVAL_MS = 1000; // How often refilling buckets are re-reported to the UI
+
+// Thrown by acquire when a bucket is in "reject" mode or the wait would exceed maxDelayMs.
+export class RateLimitError extends Error {
+  constructor(public readonly ruleId: string, public readonly key: string, public readonly retryAfterMs: number) {
+    super(`Rate limit "${ruleId}" exceeded for ${key}; next slot in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+// What a request is counted against; either part may be unknown
+export interface RateLimitTarget {
+  host?: string;
+  model?: string;
+}
+
+interface Bucket {
+  rule: RateLimitBucketRule;
+  key: string;
+  tokens: number;
+  updatedAt: number;
+  waiting: number;
+  rejected: number;
+}
+
+// "<rule id>\n<host or model>" -> bucket, created on first use with a full level
+const buckets = new Map<string, Bucket>();
+let currentConfig: RateLimitConfig = loadInitialConfig();
+let refreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let onChangeCallback: ((buckets: RateLimitBucketState[]) => void) | null = null;
+
+// Throws with a readable message if `value` is not a usable rate limit configuration.
+export function parseRateLimitConfig(value: unknown): RateLimitConfig {
+  const candidate = (typeof value === 'string' ? JSON.parse(value) : value) as Partial<RateLimitConfig> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error("Rate limit configuration must be an object.");
+  }
+  if (!Array.isArray(candidate.buckets)) {
+    throw new Error('"buckets" must be an array.');
+  }
+  const ids = new Set<string>();
+  const rules = candidate.buckets.map((rule, index): RateLimitBucketRule => {
+    const label = `Bucket ${index + 1}`;
+    if (!rule || typeof rule !== 'object') throw new Error(`${label} must be an object.`);
+    if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${label}: "id" must be a non-empty string.`);
+    if (ids.has(rule.id)) throw new Error(`${label}: duplicate id "${rule.id}".`);
+    ids.add(rule.id);
+    if (rule.scope !== 'host' && rule.scope !== 'model') throw new Error(`${label}: "scope" must be "host" or "model".`);
+    if (typeof rule.match !== 'string' || !rule.match) throw new Error(`${label}: "match" must be a non-empty string.`);
+    if (typeof rule.capacity !== 'number' || !(rule.capacity >= 1)) throw new Error(`${label}: "capacity" must be at least 1.`);
+    if (typeof rule.refillPerMinute !== 'number' || !(rule.refillPerMinute > 0)) throw new Error(`${label}: "refillPerMinute" must be a positive number.`);
+    if (rule.mode !== 'delay' && rule.mode !== 'reject') throw new Error(`${label}: "mode" must be "delay" or "reject".`);
+    if (rule.maxDelayMs !== undefined && (typeof rule.maxDelayMs !== 'number' || rule.maxDelayMs < 0)) {
+      throw new Error(`${label}: "maxDelayMs" must be a non-negative number.`);
+    }
+    return {
+      id: rule.id,
+      scope: rule.scope,
+      match: rule.scope === 'host' ? rule.match.toLowerCase() : rule.match,
+      capacity: rule.capacity,
+      refillPerMinute: rule.refillPerMinute,
+      mode: rule.mode,
+      maxDelayMs: rule.maxDelayMs,
+    };
+  });
+  return { enabled: candidate.enabled === true, buckets: rules };
+}
+
+function loadInitialConfig(): RateLimitConfig {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(RATE_LIMIT_STORAGE_KEY) : null;
+    if (stored) return parseRateLimitConfig(stored);
+  } catch (error) {
+    console.error("Rate Limiter: Ignoring invalid stored configuration:", error);
+  }
+  return DEFAULT_RATE_LIMIT_CONFIG;
+}
+
+// "models/gemini-2.5-pro" and "gemini-2.5-pro" count against the same bucket
+export function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '');
+}
+
+// Host and model of a Gemini-style URL, e.g. .../v1beta/models/gemini-2.5-pro:streamGenerateContent
+export function getRateLimitTarget(url: string): RateLimitTarget {
+  try {
+    const parsedUrl = new URL(url);
+    const model = /\/models\/([^/:]+)/.exec(parsedUrl.pathname)?.[1];
+    return { host: parsedUrl.hostname.toLowerCase(), model: model ? decodeURIComponent(model) : undefined };
+  } catch {
+    return {};
+  }
+}
+
+// Model globs only know "*", e.g. "gemini-2.5-*"
+export function modelMatches(pattern: string, model: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(model);
+}
+
+function ruleKey(rule: RateLimitBucketRule, target: RateLimitTarget): string | null {
+  if (rule.scope === 'host') {
+    const host = target.host?.toLowerCase();
+    return host && (rule.match === '*' || hostMatches(rule.match, host)) ? host : null;
+  }
+  const model = target.model ? normalizeModel(target.model) : undefined;
+  return model && modelMatches(rule.match, model) ? model : null;
+}
+
+function matchingBuckets(target: RateLimitTarget): Bucket[] {
+  const now = Date.now();
+  return currentConfig.buckets.flatMap(rule => {
+    const key = ruleKey(rule, target);
+    if (key === null) return [];
+    const mapKey = `${rule.id}\n${key}`;
+    let bucket = buckets.get(mapKey);
+    if (!bucket) {
+      bucket = { rule, key, tokens: rule.capacity, updatedAt: now, waiting: 0, rejected: 0 };
+      buckets.set(mapKey, bucket);
+    }
+    return [bucket];
+  });
+}
+
+function refill(bucket: Bucket, now: number) {
+  const elapsedMinutes = (now - bucket.updatedAt) / 60000;
+  bucket.tokens = Math.min(bucket.rule.capacity, bucket.tokens + elapsedMinutes * bucket.rule.refillPerMinute);
+  bucket.updatedAt = now;
+}
+
+function msUntilToken(bucket: Bucket): number {
+  return Math.max(0, Math.ceil((1 - bucket.tokens) / bucket.rule.refillPerMinute * 60000));
+}
+
+function getBuckets(): RateLimitBucketState[] {
+  const now = Date.now();
+  return Array.from(buckets.values()).map(bucket => {
+    refill(bucket, now);
+    return {
+      ruleId: bucket.rule.id,
+      scope: bucket.rule.scope,
+      key: bucket.key,
+      tokens: bucket.tokens,
+      capacity: bucket.rule.capacity,
+      waiting: bucket.waiting,
+      rejected: bucket.rejected,
+    };
+  });
+}
+
+// Levels change continuously while buckets refill; keep reporting until they are all full.
+function notifyChange() {
+  if (!onChangeCallback) return;
+  const states = getBuckets();
+  onChangeCallback(states);
+  if (refreshTimeoutId !== null) {
+    clearTimeout(refreshTimeoutId);
+    refreshTimeoutId = null;
+  }
+  if (states.some(state => state.tokens < state.capacity || state.waiting > 0)) {
+    refreshTimeoutId = setTimeout(() => {
+      refreshTimeoutId = null;
+      notifyChange();
+    }, LEVEL_REFRESH_INTERVAL_MS);
+  }
+}
+
+// Takes one token from every bucket matching `target`, waiting for delay-mode buckets to
+// refill. Throws RateLimitError when a reject-mode bucket is empty or the total wait would
+// exceed a bucket's maxDelayMs; rejects with the abort reason if `signal` fires while waiting.
+async function acquire(target: RateLimitTarget, signal: AbortSignal = new AbortController().signal): Promise<void> {
+  if (!currentConfig.enabled) return;
+  const matched = matchingBuckets(target);
+  if (matched.length === 0) return;
+  const startedAt = Date.now();
+
+  for (;;) {
+    const now = Date.now();
+    matched.forEach(bucket => refill(bucket, now));
+    const empty = matched.filter(bucket => bucket.tokens < 1);
+    if (empty.length === 0) {
+      matched.forEach(bucket => { bucket.tokens -= 1; });
+      notifyChange();
+      return;
+    }
+
+    const waitMs = Math.max(...empty.map(msUntilToken));
+    const blocking = empty.find(bucket => bucket.rule.mode === 'reject'
+      || (bucket.rule.maxDelayMs !== undefined && now - startedAt + waitMs > bucket.rule.maxDelayMs));
+    if (blocking) {
+      blocking.rejected++;
+      notifyChange();
+      throw new RateLimitError(blocking.rule.id, blocking.key, msUntilToken(blocking));
+    }
+
+    empty.forEach(bucket => { bucket.waiting++; });
+    notifyChange();
+    try {
+      await delay(waitMs, signal);
+    } finally {
+      empty.forEach(bucket => { bucket.waiting--; });
+    }
+  }
+}
+
+function getConfig(): RateLimitConfig {
+  return currentConfig;
+}
+
+function setConfig(config: RateLimitConfig) {
+  currentConfig = parseRateLimitConfig(config);
+  buckets.clear(); // Capacities may have changed; start every bucket full again
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(RATE_LIMIT_STORAGE_KEY, JSON.stringify(currentConfig));
+  } catch (error) {
+    console.error("Rate Limiter: Could not persist configuration:", error);
+  }
+  notifyChange();
+}
+
+function setOnChange(callback: ((buckets: RateLimitBucketState[]) => void) | null) {
+  onChangeCallback = callback;
+  if (!callback && refreshTimeoutId !== null) {
+    clearTimeout(refreshTimeoutId);
+    refreshTimeoutId = null;
+  }
+  notifyChange();
+}
+
+export const rateLimitManager = {
+  acquire,
+  getBuckets,
+  getConfig,
+  setConfig,
+  setOnChange,
+};
@@ -0,0 +1,143 @@
+import { ProxyRequestTimingConfig } from '../types';
+import { DEFAULT_PROXY_REQUEST_TIMING } from '../constants';
+import { hostMatches } from './proxyPolicy';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRY_JITTER_RATIO = 0.2;
+
+// Raised (as an abort reason) when a proxied request exceeds one of its timeouts.
+export class ProxyTimeoutError extends Error {
+  constructor(public readonly phase: 'first_byte' | 'idle', public readonly timeoutMs: number) {
+    super(phase === 'first_byte'
+      ? `No response headers within ${timeoutMs}ms`
+      : `No response data for ${timeoutMs}ms`);
+    this.name = 'ProxyTimeoutError';
+  }
+}
+
+const TIMING_FIELDS: readonly (keyof ProxyRequestTimingConfig)[] = ['firstByteTimeoutMs', 'idleTimeoutMs', 'maxRetries', 'retryBaseDelayMs', 'retryMaxDelayMs', 'retryStatuses'];
+
+// Host pattern (exact or "*.example.com") -> overrides of the default timing
+let hostOverrides: Record<string, Partial<ProxyRequestTimingConfig>> = loadEnvOverrides();
+
+// Throws with a readable message if `value` is not a usable set of timing overrides.
+export function parseTimingOverrides(value: unknown, label = 'Timing'): Partial<ProxyRequestTimingConfig> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label} must be an object.`);
+  }
+  const candidate = value as Record<string, unknown>;
+  const unknownField = Object.keys(candidate).find(field => !TIMING_FIELDS.includes(field as keyof ProxyRequestTimingConfig));
+  if (unknownField) throw new Error(`${label}: unknown field "${unknownField}".`);
+  const overrides: Partial<ProxyRequestTimingConfig> = {};
+  (['firstByteTimeoutMs', 'idleTimeoutMs'] as const).forEach(field => {
+    if (candidate[field] === undefined) return;
+    if (typeof candidate[field] !== 'number' || !(candidate[field] > 0)) throw new Error(`${label}: "${field}" must be a positive number.`);
+    overrides[field] = candidate[field];
+  });
+  (['retryBaseDelayMs', 'retryMaxDelayMs'] as const).forEach(field => {
+    if (candidate[field] === undefined) return;
+    if (typeof candidate[field] !== 'number' || !(candidate[field] >= 0)) throw new Error(`${label}: "${field}" must be a non-negative number.`);
+    overrides[field] = candidate[field];
+  });
+  if (candidate.maxRetries !== undefined) {
+    if (!Number.isInteger(candidate.maxRetries) || (candidate.maxRetries as number) < 0) {
+      throw new Error(`${label}: "maxRetries" must be a non-negative integer.`);
+    }
+    overrides.maxRetries = candidate.maxRetries as number;
+  }
+  if (candidate.retryStatuses !== undefined) {
+    const statuses = candidate.retryStatuses;
+    if (!Array.isArray(statuses) || statuses.some(status => !Number.isInteger(status) || status < 100 || status > 599)) {
+      throw new Error(`${label}: "retryStatuses" must be an array of HTTP status codes.`);
+    }
+    overrides.retryStatuses = [...statuses];
+  }
+  return overrides;
+}
+
+// Throws with a readable message if `value` is not a usable host -> overrides map.
+function parseHostTiming(value: unknown): Record<string, Partial<ProxyRequestTimingConfig>> {
+  const candidate = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    throw new Error("Host timing must be an object of host pattern -> timing overrides.");
+  }
+  const parsed: Record<string, Partial<ProxyRequestTimingConfig>> = {};
+  Object.entries(candidate).forEach(([hostPattern, overrides]) => {
+    if (!hostPattern.trim()) throw new Error("Host timing: host patterns must not be empty.");
+    parsed[hostPattern] = parseTimingOverrides(overrides, `Host "${hostPattern}"`);
+  });
+  return parsed;
+}
+
+function loadEnvOverrides(): Record<string, Partial<ProxyRequestTimingConfig>> {
+  try {
+    if (process.env.WEBSOCKET_PROXY_HOST_TIMING) {
+      return parseHostTiming(process.env.WEBSOCKET_PROXY_HOST_TIMING);
+    }
+  } catch (error) {
+    console.error("Request Timing: Ignoring invalid WEBSOCKET_PROXY_HOST_TIMING:", error);
+  }
+  return {};
+}
+
+export function resolveRequestTiming(url: string): ProxyRequestTimingConfig {
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return DEFAULT_PROXY_REQUEST_TIMING;
+  }
+  const pattern = Object.keys(hostOverrides).find(candidate => hostMatches(candidate.toLowerCase(), hostname));
+  return pattern ? { ...DEFAULT_PROXY_REQUEST_TIMING, ...hostOverrides[pattern] } : DEFAULT_PROXY_REQUEST_TIMING;
+}
+
+// Throws, leaving the current overrides in place, if `overrides` does not parse.
+export function setHostRequestTiming(hostPattern: string, overrides: Partial<ProxyRequestTimingConfig> | null) {
+  const parsed = overrides ? parseTimingOverrides(overrides, `Host "${hostPattern}"`) : null;
+  hostOverrides = { ...hostOverrides };
+  if (parsed) {
+    hostOverrides[hostPattern] = parsed;
+  } else {
+    delete hostOverrides[hostPattern];
+  }
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+// Retry-After is either delay-seconds or an HTTP date.
+export function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// attempt is 0 for the first retry. Returns null when the upstream asks us (via Retry-After)
+// to wait longer than retryMaxDelayMs; the response is then passed through rather than retried.
+export function getRetryDelayMs(attempt: number, retryAfter: string | null, config: ProxyRequestTimingConfig): number | null {
+  const retryAfterMs = parseRetryAfterMs(retryAfter);
+  if (retryAfterMs !== null) {
+    return retryAfterMs <= config.retryMaxDelayMs ? retryAfterMs : null;
+  }
+  const backoffMs = config.retryBaseDelayMs * Math.pow(2, attempt);
+  return Math.min(backoffMs + Math.random() * backoffMs * RETRY_JITTER_RATIO, config.retryMaxDelayMs);
+}
+
+// Resolves after `ms`, or rejects with the abort reason if the signal fires first.
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
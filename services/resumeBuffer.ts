@@ -0,0 +1,89 @@
+import { WSStreamStartMessage, WSStreamChunkMessage, WSStreamEndMessage, WSHttpResponseMessage, WSErrorMessage } from '../types';
+
+// Messages that belong to one proxied request and can be replayed after a reconnect
+export type WSRequestOutboundMessage = WSStreamStartMessage | WSStreamChunkMessage | WSStreamEndMessage | WSHttpResponseMessage | WSErrorMessage;
+
+interface BufferedChunk {
+  message: WSStreamChunkMessage;
+  bytes: number;
+  bufferedAt: number;
+}
+
+export interface ResumeBuffer {
+  // Sequence number for the next stream_chunk
+  nextSeq: () => number;
+  record: (message: WSRequestOutboundMessage) => void;
+  // Drops chunks the server confirmed (stream_ack with seq)
+  acknowledge: (seq: number) => void;
+  // Drops the oldest delivered chunks beyond the age or size bound. Only call while connected.
+  trim: (maxAgeMs: number, maxBytes: number) => void;
+  // Messages the server missed after lastSeq, or null if some were already trimmed
+  replayFrom: (lastSeq: number) => WSRequestOutboundMessage[] | null;
+  bufferedBytes: () => number;
+  isComplete: () => boolean;
+}
+
+export function createResumeBuffer(): ResumeBuffer {
+  let startMessage: WSStreamStartMessage | null = null;
+  let terminalMessage: WSRequestOutboundMessage | null = null;
+  let chunks: BufferedChunk[] = [];
+  let totalBytes = 0;
+  let lastSeq = 0;
+  let firstRetainedSeq = 1; // Everything before this has been acknowledged or trimmed
+
+  const dropThrough = (seq: number) => {
+    while (chunks.length > 0 && chunks[0].message.payload.seq <= seq) {
+      totalBytes -= chunks[0].bytes;
+      chunks.shift();
+    }
+    firstRetainedSeq = Math.max(firstRetainedSeq, seq + 1);
+  };
+
+  return {
+    nextSeq: () => ++lastSeq,
+
+    record: (message) => {
+      switch (message.type) {
+        case "stream_start":
+          startMessage = message;
+          break;
+        case "stream_chunk": {
+          const bytes = message.payload.data.length;
+          chunks.push({ message, bytes, bufferedAt: Date.now() });
+          totalBytes += bytes;
+          break;
+        }
+        default:
+          terminalMessage = message;
+      }
+    },
+
+    acknowledge: (seq) => dropThrough(seq),
+
+    trim: (maxAgeMs, maxBytes) => {
+      const cutoff = Date.now() - maxAgeMs;
+      let dropSeq = -1;
+      let remainingBytes = totalBytes;
+      for (const chunk of chunks) {
+        if (chunk.bufferedAt >= cutoff && remainingBytes <= maxBytes) break;
+        dropSeq = chunk.message.payload.seq;
+        remainingBytes -= chunk.bytes;
+      }
+      if (dropSeq !== -1) dropThrough(dropSeq);
+    },
+
+    replayFrom: (fromSeq) => {
+      if (Math.max(fromSeq, 0) + 1 < firstRetainedSeq) return null; // Chunks start at seq 1
+      const replay: WSRequestOutboundMessage[] = [];
+      if (fromSeq < 0 && startMessage) replay.push(startMessage);
+      chunks.forEach(chunk => {
+        if (chunk.message.payload.seq > fromSeq) replay.push(chunk.message);
+      });
+      if (terminalMessage) replay.push(terminalMessage);
+      return replay;
+    },
+
+    bufferedBytes: () => totalBytes,
+    isComplete: () => terminalMessage !== null,
+  };
+}
@@ -0,0 +1,56 @@
+// Regroups a text/event-stream body into whole SSE events, whatever the upstream chunk
+// boundaries. An event is every line up to and including the blank line that ends it;
+// line terminators are passed through untouched.
+
+export interface SseFramer {
+  // Returns the events completed by `text`, in order
+  push: (text: string) => string[];
+  // Whatever is left at the end of the stream (an event without its blank line), if anything
+  flush: () => string | null;
+}
+
+export function createSseFramer(): SseFramer {
+  let pending = ''; // Text not yet split into lines
+  let currentEvent = ''; // Complete lines of the event being assembled
+  let hasContent = false; // currentEvent holds more than stray blank lines
+
+  const push = (text: string): string[] => {
+    pending += text;
+    const events: string[] = [];
+    let position = 0;
+    while (position < pending.length) {
+      const lineFeed = pending.indexOf('\n', position);
+      const carriageReturn = pending.indexOf('\r', position);
+      const end = lineFeed === -1 ? carriageReturn : carriageReturn === -1 ? lineFeed : Math.min(lineFeed, carriageReturn);
+      if (end === -1) break;
+      // A trailing \r may be the first half of \r\n; wait for the next chunk to tell
+      if (pending[end] === '\r' && end === pending.length - 1) break;
+      const terminatorLength = pending[end] === '\r' && pending[end + 1] === '\n' ? 2 : 1;
+      const isBlank = end === position;
+      currentEvent += pending.slice(position, end + terminatorLength);
+      position = end + terminatorLength;
+
+      if (!isBlank) {
+        hasContent = true;
+      } else if (hasContent) {
+        events.push(currentEvent);
+        currentEvent = '';
+        hasContent = false;
+      } else {
+        currentEvent = ''; // Blank lines between events carry nothing
+      }
+    }
+    pending = pending.slice(position);
+    return events;
+  };
+
+  const flush = (): string | null => {
+    const rest = currentEvent + pending;
+    currentEvent = '';
+    pending = '';
+    hasContent = false;
+    return rest.trim() ? rest : null;
+  };
+
+  return { push, flush };
+}
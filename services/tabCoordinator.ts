@@ -0,0 +1,280 @@
+import { ProxyWorkerConfig, TabCoordinatorState, TabRelaySnapshot, WebSocketProxyStatus } from '../types';
+import { RateLimitError, RateLimitTarget } from './rateLimiter';
+
+// Only one tab may own the relay connection: two sockets with the same token would compete
+// for the server's requests. The leader is whichever tab holds a Web Lock; when it closes the
+// browser hands the lock to the next waiting tab. State and commands travel over a
+// BroadcastChannel. Without either API every tab simply acts on its own.
+// Rate limit buckets live in the leader's proxy worker too, so followers acquire through it and
+// every tab draws from the same buckets. Traffic and the policy audit log stay in the leader tab.
+// Proxy settings saved in any tab (token, policy, rules, endpoints...) go to all the others, so
+// the leader relays with them whichever tab they were saved in.
+
+const LEADER_LOCK_NAME = 'ws-proxy-leader';
+const CHANNEL_NAME = 'ws-proxy-tabs';
+
+export type TabRelayCommand = 'connect' | 'disconnect' | 'drain';
+
+type TabMessage =
+  | { type: 'hello'; tabId: string } // A new tab asks the leader to announce itself
+  | { type: 'leader'; tabId: string; snapshot: TabRelaySnapshot | null }
+  | { type: 'resign'; tabId: string } // The leader tab is going away
+  | { type: 'state'; tabId: string; snapshot: TabRelaySnapshot }
+  | { type: 'command'; tabId: string; command: TabRelayCommand }
+  | { type: 'config'; tabId: string; config: ProxyWorkerConfig }
+  | { type: 'rate_limit_request'; tabId: string; callId: number; target: RateLimitTarget }
+  | { type: 'rate_limit_result'; tabId: string; callId: number; error?: { ruleId: string; key: string; retryAfterMs: number } }; // tabId: the requesting tab
+
+// Status values meaning the user wants the relay running; a new leader picks the connection up
+const ACTIVE_STATUSES = [WebSocketProxyStatus.CONNECTING, WebSocketProxyStatus.CONNECTED, WebSocketProxyStatus.RECONNECTING];
+
+const tabId = Math.random().toString(16).slice(2, 6);
+let leaderId: string | null = null;
+let channel: BroadcastChannel | null = null;
+let lockAbortController: AbortController | null = null;
+let releaseLock: (() => void) | null = null;
+let lastSnapshot: TabRelaySnapshot | null = null; // Own when leading, the leader's otherwise
+// Sent while no tab leads (before the election settles, or during a handover); delivered to
+// whichever tab leads next. Only the latest one counts.
+let pendingCommand: TabRelayCommand | null = null;
+// Follower rate limit requests awaiting the leader's answer; resent if the leader changes
+let nextCallId = 1;
+const pendingRateLimits = new Map<number, { target: RateLimitTarget; resolve: () => void; reject: (error: Error) => void }>();
+let onChangeCallback: ((state: TabCoordinatorState) => void) | null = null;
+let onRemoteStateCallback: ((snapshot: TabRelaySnapshot) => void) | null = null;
+let onCommandCallback: ((command: TabRelayCommand) => void) | null = null;
+let onBecomeLeaderCallback: ((resumeRelay: boolean) => void) | null = null;
+let onConfigCallback: ((config: ProxyWorkerConfig) => void) | null = null;
+let onRateLimitRequestCallback: ((target: RateLimitTarget) => Promise<void>) | null = null;
+
+function getState(): TabCoordinatorState {
+  return { tabId, leaderId, isLeader: leaderId === tabId };
+}
+
+function notifyChange() {
+  if (onChangeCallback) {
+    onChangeCallback(getState());
+  }
+}
+
+function post(message: TabMessage) {
+  channel?.postMessage(message);
+}
+
+// Without an acquirer (rate limiting not wired up) every request passes
+function acquireLocally(target: RateLimitTarget): Promise<void> {
+  return onRateLimitRequestCallback ? onRateLimitRequestCallback(target) : Promise.resolve();
+}
+
+function answerRateLimit(requester: string, callId: number, target: RateLimitTarget) {
+  acquireLocally(target).then(
+    () => post({ type: 'rate_limit_result', tabId: requester, callId }),
+    (error) => {
+      const { ruleId, key, retryAfterMs } = error as RateLimitError;
+      post({ type: 'rate_limit_result', tabId: requester, callId, error: { ruleId, key, retryAfterMs } });
+    },
+  );
+}
+
+function becomeLeader() {
+  const resumeRelay = lastSnapshot !== null && ACTIVE_STATUSES.includes(lastSnapshot.status);
+  console.log(`Tab Coordinator: Tab ${tabId} now owns the relay connection${resumeRelay ? ', resuming it' : ''}.`);
+  leaderId = tabId;
+  lastSnapshot = null;
+  post({ type: 'leader', tabId, snapshot: null });
+  notifyChange();
+  if (onBecomeLeaderCallback) {
+    onBecomeLeaderCallback(resumeRelay);
+  }
+  const command = pendingCommand;
+  pendingCommand = null;
+  if (command && onCommandCallback) onCommandCallback(command);
+  pendingRateLimits.forEach(({ target, resolve, reject }) => acquireLocally(target).then(resolve, reject));
+  pendingRateLimits.clear();
+}
+
+function setLeader(id: string) {
+  if (id === leaderId) return;
+  leaderId = id;
+  if (pendingCommand) {
+    post({ type: 'command', tabId, command: pendingCommand });
+    pendingCommand = null;
+  }
+  // The previous leader may have gone before answering; a late answer from it is ignored
+  pendingRateLimits.forEach(({ target }, callId) => post({ type: 'rate_limit_request', tabId, callId, target }));
+}
+
+function handleMessage(message: TabMessage) {
+  const isLeader = leaderId === tabId;
+  switch (message.type) {
+    case 'hello':
+      if (isLeader) post({ type: 'leader', tabId, snapshot: lastSnapshot });
+      break;
+    case 'leader':
+      if (isLeader) break; // Cannot happen while we hold the lock
+      setLeader(message.tabId);
+      if (message.snapshot) {
+        lastSnapshot = message.snapshot;
+        onRemoteStateCallback?.(message.snapshot);
+      }
+      notifyChange();
+      break;
+    case 'resign':
+      if (message.tabId === leaderId) {
+        leaderId = null;
+        notifyChange();
+      }
+      break;
+    case 'state':
+      if (isLeader) break;
+      setLeader(message.tabId);
+      lastSnapshot = message.snapshot;
+      onRemoteStateCallback?.(message.snapshot);
+      notifyChange();
+      break;
+    case 'command':
+      if (isLeader && onCommandCallback) onCommandCallback(message.command);
+      break;
+    case 'config':
+      onConfigCallback?.(message.config);
+      break;
+    case 'rate_limit_request':
+      if (isLeader) answerRateLimit(message.tabId, message.callId, message.target);
+      break;
+    case 'rate_limit_result': {
+      if (message.tabId !== tabId) break;
+      const pending = pendingRateLimits.get(message.callId);
+      pendingRateLimits.delete(message.callId);
+      if (!pending) break;
+      if (message.error) {
+        pending.reject(new RateLimitError(message.error.ruleId, message.error.key, message.error.retryAfterMs));
+      } else {
+        pending.resolve();
+      }
+      break;
+    }
+  }
+}
+
+const handlePageHide = () => {
+  if (leaderId === tabId) post({ type: 'resign', tabId });
+};
+
+// Joins the election. This tab becomes leader right away if no other tab holds the lock,
+// otherwise whenever the tabs ahead of it close.
+function start() {
+  if (channel || leaderId === tabId) return;
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (!locks || typeof BroadcastChannel === 'undefined') {
+    console.warn("Tab Coordinator: Web Locks or BroadcastChannel unavailable; this tab relays on its own.");
+    becomeLeader();
+    return;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => handleMessage(event.data);
+  window.addEventListener('pagehide', handlePageHide);
+  lockAbortController = new AbortController();
+  locks.request(LEADER_LOCK_NAME, { signal: lockAbortController.signal }, () => new Promise<void>(resolve => {
+    releaseLock = resolve;
+    becomeLeader();
+  })).catch(error => {
+    if ((error as Error)?.name !== 'AbortError') {
+      console.error("Tab Coordinator: Leader lock request failed:", error);
+    }
+  });
+  post({ type: 'hello', tabId });
+}
+
+function stop() {
+  handlePageHide();
+  lockAbortController?.abort();
+  lockAbortController = null;
+  releaseLock?.();
+  releaseLock = null;
+  if (typeof window !== 'undefined') window.removeEventListener('pagehide', handlePageHide);
+  channel?.close();
+  channel = null;
+  leaderId = null;
+  lastSnapshot = null;
+  pendingCommand = null;
+  pendingRateLimits.clear();
+  notifyChange();
+}
+
+// Leader only: shares the connection state with the other tabs
+function publishState(snapshot: TabRelaySnapshot) {
+  if (leaderId !== tabId) return;
+  lastSnapshot = snapshot;
+  post({ type: 'state', tabId, snapshot });
+}
+
+// Followers forward connect/disconnect/drain to the leader; returns false if this tab is the leader
+// and should act itself. With no leader known yet the command waits for the next one.
+function sendCommand(command: TabRelayCommand): boolean {
+  if (leaderId === tabId) return false;
+  if (leaderId === null) {
+    pendingCommand = command;
+    return true;
+  }
+  post({ type: 'command', tabId, command });
+  return true;
+}
+
+// Any tab: hands settings just saved here to the other tabs. Sent on the same channel as
+// commands, so a follower's "save token, then connect" reaches the leader in that order.
+function shareConfig(config: ProxyWorkerConfig) {
+  post({ type: 'config', tabId, config });
+}
+
+// Followers take rate limit tokens from the leader's buckets; null means this tab leads (or acts
+// on its own) and should acquire from its own worker. While no tab leads the request waits.
+function acquireRateLimit(target: RateLimitTarget): Promise<void> | null {
+  if (!channel || leaderId === tabId) return null;
+  return new Promise((resolve, reject) => {
+    const callId = nextCallId++;
+    pendingRateLimits.set(callId, { target, resolve, reject });
+    if (leaderId !== null) post({ type: 'rate_limit_request', tabId, callId, target });
+  });
+}
+
+function setOnChange(callback: ((state: TabCoordinatorState) => void) | null) {
+  onChangeCallback = callback;
+  notifyChange();
+}
+
+function setOnRemoteState(callback: ((snapshot: TabRelaySnapshot) => void) | null) {
+  onRemoteStateCallback = callback;
+}
+
+function setOnCommand(callback: ((command: TabRelayCommand) => void) | null) {
+  onCommandCallback = callback;
+}
+
+function setOnBecomeLeader(callback: ((resumeRelay: boolean) => void) | null) {
+  onBecomeLeaderCallback = callback;
+}
+
+function setOnConfig(callback: ((config: ProxyWorkerConfig) => void) | null) {
+  onConfigCallback = callback;
+}
+
+// Leader only: acquires for followers, normally from this tab's proxy worker
+function setOnRateLimitRequest(callback: ((target: RateLimitTarget) => Promise<void>) | null) {
+  onRateLimitRequestCallback = callback;
+}
+
+export const tabCoordinator = {
+  start,
+  stop,
+  getState,
+  publishState,
+  sendCommand,
+  acquireRateLimit,
+  shareConfig,
+  setOnChange,
+  setOnRemoteState,
+  setOnCommand,
+  setOnBecomeLeader,
+  setOnConfig,
+  setOnRateLimitRequest,
+};
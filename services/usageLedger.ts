@@ -0,0 +1,260 @@
+import { GeminiUsageMetadata, ModelPrice, UsageLedgerEntry, UsageSource } from '../types';
+import { DEFAULT_MODEL_PRICES, USAGE_LEDGER_MAX_DAYS } from '../constants';
+import { modelMatches, normalizeModel } from './rateLimiter';
+
+const LEDGER_STORAGE_KEY = 'usageLedger';
+const PRICES_STORAGE_KEY = 'usagePrices';
+const USAGE_KEY = '"usageMetadata"';
+const MAX_PENDING_USAGE_CHARS = 64 * 1024; // An unterminated usage object longer than this is given up on
+const CSV_COLUMNS = ['day', 'model', 'source', 'requests', 'prompt_tokens', 'candidates_tokens', 'thoughts_tokens', 'cached_tokens', 'estimated_cost_usd'];
+
+let entries: UsageLedgerEntry[] = loadStored(LEDGER_STORAGE_KEY, parseLedger, []);
+let prices: ModelPrice[] = loadStored(PRICES_STORAGE_KEY, parsePriceTable, DEFAULT_MODEL_PRICES);
+let onChangeCallback: ((entries: UsageLedgerEntry[]) => void) | null = null;
+let onRecordCallback: ((source: UsageSource, model: string, usage: GeminiUsageMetadata) => void) | null = null;
+
+// Throws with a readable message if `value` is not a usable price table.
+export function parsePriceTable(value: unknown): ModelPrice[] {
+  const candidate = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(candidate)) {
+    throw new Error("Price table must be an array.");
+  }
+  return candidate.map((price, index): ModelPrice => {
+    const label = `Price ${index + 1}`;
+    if (!price || typeof price !== 'object') throw new Error(`${label} must be an object.`);
+    if (typeof price.model !== 'string' || !price.model) throw new Error(`${label}: "model" must be a non-empty string.`);
+    (['inputPerMillion', 'outputPerMillion', 'cachedInputPerMillion'] as const).forEach(field => {
+      const amount = price[field];
+      if ((field !== 'cachedInputPerMillion' || amount !== undefined) && (typeof amount !== 'number' || amount < 0)) {
+        throw new Error(`${label}: "${field}" must be a non-negative number.`);
+      }
+    });
+    return {
+      model: price.model,
+      inputPerMillion: price.inputPerMillion,
+      outputPerMillion: price.outputPerMillion,
+      cachedInputPerMillion: price.cachedInputPerMillion,
+    };
+  });
+}
+
+// Throws with a readable message if `value` is not a usable ledger.
+function parseLedger(value: unknown): UsageLedgerEntry[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Usage ledger must be an array.");
+  }
+  return value.map((entry, index): UsageLedgerEntry => {
+    const label = `Entry ${index + 1}`;
+    if (!entry || typeof entry !== 'object') throw new Error(`${label} must be an object.`);
+    if (typeof entry.day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.day)) throw new Error(`${label}: "day" must be a YYYY-MM-DD date.`);
+    if (typeof entry.model !== 'string' || !entry.model) throw new Error(`${label}: "model" must be a non-empty string.`);
+    if (entry.source !== 'proxy' && entry.source !== 'chat') throw new Error(`${label}: "source" must be "proxy" or "chat".`);
+    (['requests', 'promptTokens', 'candidatesTokens', 'thoughtsTokens', 'cachedTokens'] as const).forEach(field => {
+      if (!Number.isInteger(entry[field]) || entry[field] < 0) {
+        throw new Error(`${label}: "${field}" must be a non-negative integer.`);
+      }
+    });
+    return {
+      day: entry.day,
+      model: entry.model,
+      source: entry.source,
+      requests: entry.requests,
+      promptTokens: entry.promptTokens,
+      candidatesTokens: entry.candidatesTokens,
+      thoughtsTokens: entry.thoughtsTokens,
+      cachedTokens: entry.cachedTokens,
+    };
+  });
+}
+
+function loadStored<T>(key: string, parse: (value: unknown) => T, fallback: T): T {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    if (stored) return parse(JSON.parse(stored));
+  } catch (error) {
+    console.error(`Usage Ledger: Ignoring invalid stored ${key}:`, error);
+  }
+  return fallback;
+}
+
+function persist(key: string, value: unknown) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Usage Ledger: Could not persist ${key}:`, error);
+  }
+}
+
+function notifyChange() {
+  if (onChangeCallback) {
+    onChangeCallback(entries);
+  }
+}
+
+function formatDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Model of a generateContent / streamGenerateContent URL; null for any other request
+export function getUsageModel(url: string): string | null {
+  try {
+    const match = /\/models\/([^/:]+):(generateContent|streamGenerateContent)$/.exec(new URL(url).pathname);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Index just past the "}" closing the object that opens at `start`, or -1 if it is not complete yet
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+// Picks the last usageMetadata object out of a response body fed in arbitrary pieces. Works
+// for plain JSON, streamed JSON arrays and SSE alike without holding the whole body: streamed
+// responses repeat usageMetadata with running totals, so the last one is the final count.
+export function createUsageScanner() {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let latest: GeminiUsageMetadata | null = null;
+
+  const scan = (text: string) => {
+    pending += text;
+    for (;;) {
+      const keyIndex = pending.indexOf(USAGE_KEY);
+      if (keyIndex === -1) {
+        pending = pending.slice(-USAGE_KEY.length); // The key may be split across pieces
+        return;
+      }
+      const objectStart = pending.indexOf('{', keyIndex + USAGE_KEY.length);
+      const objectEnd = objectStart === -1 ? -1 : findObjectEnd(pending, objectStart);
+      if (objectEnd === -1) {
+        pending = pending.length - keyIndex > MAX_PENDING_USAGE_CHARS ? '' : pending.slice(keyIndex);
+        return;
+      }
+      try {
+        latest = JSON.parse(pending.slice(objectStart, objectEnd));
+      } catch {
+        // Not the object we are after (e.g. the key inside a string); keep scanning
+      }
+      pending = pending.slice(objectEnd);
+    }
+  };
+
+  return {
+    push(bytes: Uint8Array) {
+      scan(decoder.decode(bytes, { stream: true }));
+    },
+    finish(): GeminiUsageMetadata | null {
+      scan(decoder.decode());
+      return latest;
+    },
+  };
+}
+
+function record(source: UsageSource, model: string, usage: GeminiUsageMetadata) {
+  // Every tab writes the whole ledger, so start from what is stored: another tab may have
+  // recorded since this one last read it. A stored ledger that does not parse is replaced.
+  entries = loadStored(LEDGER_STORAGE_KEY, parseLedger, entries);
+  const day = formatDay(new Date());
+  const normalizedModel = normalizeModel(model);
+  let entry = entries.find(candidate => candidate.day === day && candidate.model === normalizedModel && candidate.source === source);
+  if (!entry) {
+    entry = { day, model: normalizedModel, source, requests: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, cachedTokens: 0 };
+    const oldestDay = formatDay(new Date(Date.now() - USAGE_LEDGER_MAX_DAYS * 24 * 60 * 60 * 1000));
+    entries = [...entries.filter(candidate => candidate.day > oldestDay), entry];
+  }
+  entry.requests += 1;
+  entry.promptTokens += usage.promptTokenCount ?? 0;
+  entry.candidatesTokens += usage.candidatesTokenCount ?? 0;
+  entry.thoughtsTokens += usage.thoughtsTokenCount ?? 0;
+  entry.cachedTokens += usage.cachedContentTokenCount ?? 0;
+  entries = [...entries]; // New array so React sees the change
+  persist(LEDGER_STORAGE_KEY, entries);
+  notifyChange();
+  if (onRecordCallback) {
+    onRecordCallback(source, normalizedModel, usage);
+  }
+}
+
+// Estimated USD cost, or null when no price matches the model. Cached prompt tokens are
+// billed at the cached rate, thought tokens at the output rate.
+function estimateCost(entry: UsageLedgerEntry): number | null {
+  const price = prices.find(candidate => modelMatches(candidate.model, entry.model));
+  if (!price) return null;
+  const cachedTokens = Math.min(entry.cachedTokens, entry.promptTokens);
+  return ((entry.promptTokens - cachedTokens) * price.inputPerMillion
+    + cachedTokens * (price.cachedInputPerMillion ?? price.inputPerMillion)
+    + (entry.candidatesTokens + entry.thoughtsTokens) * price.outputPerMillion) / 1_000_000;
+}
+
+function exportCsv(): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = entries.map(entry => {
+    const cost = estimateCost(entry);
+    return [
+      entry.day, entry.model, entry.source, entry.requests, entry.promptTokens, entry.candidatesTokens,
+      entry.thoughtsTokens, entry.cachedTokens, cost === null ? '' : cost.toFixed(6),
+    ].map(value => escape(String(value))).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+function getEntries(): UsageLedgerEntry[] {
+  return entries;
+}
+
+function clear() {
+  entries = [];
+  persist(LEDGER_STORAGE_KEY, entries);
+  notifyChange();
+}
+
+function getPrices(): ModelPrice[] {
+  return prices;
+}
+
+function setPrices(newPrices: ModelPrice[]) {
+  prices = parsePriceTable(newPrices);
+  persist(PRICES_STORAGE_KEY, prices);
+  notifyChange(); // Cost estimates depend on the prices
+}
+
+function setOnChange(callback: ((entries: UsageLedgerEntry[]) => void) | null) {
+  onChangeCallback = callback;
+  notifyChange();
+}
+
+// Lets the proxy worker hand each recorded response to the UI's ledger, which is the persisted one
+function setOnRecord(callback: ((source: UsageSource, model: string, usage: GeminiUsageMetadata) => void) | null) {
+  onRecordCallback = callback;
+}
+
+export const usageLedgerManager = {
+  record,
+  getEntries,
+  clear,
+  getPrices,
+  setPrices,
+  estimateCost,
+  exportCsv,
+  setOnChange,
+  setOnRecord,
+};
@@ -1,6 +1,7 @@
 
 import {
   WebSocketProxyStatus,
+  WebSocketProxyStats,
   WSServerSentMessage,
   WSClientSentMessage,
   WSHttpRequestMessage,
@@ -9,14 +10,64 @@ import {
   WSStreamChunkMessage,
   WSStreamEndMessage,
   WSErrorMessage,
-  WSPingMessage
+  WSPingMessage,
+  WSAuthMessage,
+  WSHelloMessage,
+  WSHelloAckMessage,
+  WSCancelMessage,
+  WSFlowControlMessage,
+  WSStreamAckMessage,
+  WSResumeMessage,
+  WSDrainingMessage,
+  WSProtocolErrorMessage,
+  WSPayloadCompression,
+  WSBodyEncoding,
+  WSRejectionCode,
+  ProxyRequestTimingConfig
 } from '../types';
+import { chooseBodyEncoding, decodeBody, encodeBytes, concatBytes } from './bodyEncoding';
+import { classifyFetchFailure } from './fetchErrors';
+import { CompressedPayload, compressPayload, getSupportedCompression, isSupportedCompression } from './payloadCompression';
+import { CreditWindow, createCreditWindow, waitForSendBuffer } from './flowControl';
+import { ResumeBuffer, WSRequestOutboundMessage, createResumeBuffer } from './resumeBuffer';
+import { createSseFramer } from './sseFraming';
+import { ProtocolValidationError, parseServerMessage, isServerMessageType } from './protocolValidation';
+import { proxyPolicyManager } from './proxyPolicy';
+import { proxyRewriteManager } from './proxyRewrite';
+import { proxyInspector } from './proxyInspector';
+import { proxyCacheManager, CacheLookup, CachedResponse } from './proxyCache';
+import { proxyEndpointManager } from './proxyEndpoints';
+import { proxyAuthManager, getTokenExpiry, isTokenExpired } from './proxyAuth';
+import { ProxyTimeoutError, resolveRequestTiming, setHostRequestTiming, isIdempotentMethod, getRetryDelayMs, delay } from './requestTiming';
+import { rateLimitManager, RateLimitError, getRateLimitTarget } from './rateLimiter';
+import { usageLedgerManager, createUsageScanner, getUsageModel } from './usageLedger';
+import { DEFAULT_PROXY_MAX_IN_FLIGHT, DEFAULT_PROXY_MAX_QUEUED, DEFAULT_PROXY_DRAIN_TIMEOUT_MS, PROXY_PROTOCOL_VERSION, PROXY_CLIENT_CAPABILITIES, PROXY_CLIENT_BUILD, PROXY_COMPRESSION_MIN_BYTES, PROXY_CACHE_HEADER, PROXY_CACHE_MAX_BODY_BYTES } from '../constants';
 
-const BASE_WEBSOCKET_URL = process.env.WEBSOCKET_PROXY_URL || "ws://127.0.0.1:5345/v1/ws"; // Target WebSocket URL
 const PING_INTERVAL_MS = 25 * 1000; // 25 seconds
+const PONG_TIMEOUT_MS = 10 * 1000; // A ping unanswered this long means the connection is dead (e.g. half-open TCP)
+const RTT_SAMPLE_COUNT = 10; // Ping/pong samples in the average latency
+const CLOSE_CODE_PONG_TIMEOUT = 4008;
 const RECONNECT_INITIAL_DELAY_MS = 1000;
 const RECONNECT_MAX_DELAY_MS = 30 * 1000;
 const RECONNECT_JITTER_MS = 500;
+const SEND_BUFFER_HIGH_WATER_MARK_BYTES = 1024 * 1024; // Pause upstream reads above 1 MiB of unsent data
+// Servers predating the handshake never answer; fall back to legacy mode. Kept short because
+// the connection shows CONNECTING until then, on every connect and reconnect.
+const HELLO_ACK_TIMEOUT_MS = 1500;
+const CLOSE_CODE_PROTOCOL_MISMATCH = 4000;
+// Close codes the relay uses when it rejects the token; reconnecting with the same token is pointless
+const AUTH_FAILURE_CLOSE_CODES = [1008, 4001, 4003];
+const TOKEN_REFRESH_LEAD_MS = 60 * 1000; // Refresh (or prompt) this long before the JWT expires
+const RESUME_WINDOW_MS = 30 * 1000; // How long a request's output is kept for the server to resume after a drop
+const RESUME_BUFFER_MAX_BYTES = 4 * 1024 * 1024; // Per request; upstream reads pause above this while disconnected
+const RESUME_POLL_INTERVAL_MS = 100;
+const STREAM_BATCH_MAX_BYTES = 16 * 1024; // With compression on, stream chunks are batched up to this size...
+const STREAM_BATCH_MAX_DELAY_MS = 50; // ...or for at most this long
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
 
 
 // Numeric constants for WebSocket readyState
@@ -28,11 +79,66 @@ const WS_CLOSED = 3;
 let socket: WebSocket | null = null;
 let currentStatus: WebSocketProxyStatus = WebSocketProxyStatus.IDLE;
 let onStatusChangeCallback: ((status: WebSocketProxyStatus, details?: string) => void) | null = null;
-let pingIntervalId: number | null = null;
-let reconnectTimeoutId: number | null = null;
+let onStatsChangeCallback: ((stats: WebSocketProxyStats) => void) | null = null;
+let onAuthRequiredCallback: ((reason: string) => void) | null = null;
+let tokenRefreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let pingIntervalId: ReturnType<typeof setInterval> | null = null;
+let pongTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let pingSentAt: number | null = null; // Only one ping is outstanding at a time
+let rttSamples: number[] = [];
+let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
 let currentReconnectDelay = RECONNECT_INITIAL_DELAY_MS;
 let explicitClose = false;
 let currentJwtToken: string | null = null;
+// Endpoint of the current socket, for health scoring and failover
+let connectingEndpointUrl: string | null = null;
+let connectStartedAt = 0;
+let socketWasOpened = false;
+// Set before closing the socket for a reason that reconnecting cannot fix
+let fatalCloseReason: string | null = null;
+let helloAckTimeoutId: ReturnType<typeof setTimeout> | null = null;
+// Protocol agreed with the server via hello/hello_ack; null until acknowledged (or legacy fallback)
+let negotiatedProtocol: { version: string; capabilities: string[] } | null = null;
+// Payload compression picked by the server in hello_ack, and its effect on this connection
+let negotiatedCompression: WSPayloadCompression | null = null;
+let compressedOriginalBytes = 0;
+let compressedWireBytes = 0;
+// In-flight proxied requests, keyed by request ID, so the server can cancel them
+const activeRequests = new Map<string, AbortController>();
+// Credit-based flow control, enabled per connection by a server "flow_control" message (0 = off)
+let streamCreditWindowSize = 0;
+
+// Everything a request has sent, kept so the server can "resume" it after a reconnect
+interface RequestOutbox {
+  buffer: ResumeBuffer;
+  creditWindow: CreditWindow | null; // Belongs to the connection the stream is currently attached to
+  detached: boolean; // The connection dropped and the server has not resumed this request yet
+  expiryTimeoutId: ReturnType<typeof setTimeout> | null;
+}
+const requestOutboxes = new Map<string, RequestOutbox>();
+// Requests still queued when the connection dropped. They never ran; each gets a DISCONNECTED
+// error once the socket is back, kept in its outbox so a "resume" replays it.
+const disconnectedQueueIds = new Set<string>();
+
+// Concurrency limiting: at most maxInFlight requests execute, the rest wait in a priority queue
+interface QueuedHttpRequest {
+  request: WSHttpRequestMessage;
+  cache: CacheLookup | null; // Set when a cache rule applies; the response is stored on the way out
+  priority: number;
+  sequence: number; // Arrival order, keeps equal priorities FIFO
+}
+let maxInFlight = parseLimit(process.env.WEBSOCKET_PROXY_MAX_IN_FLIGHT, DEFAULT_PROXY_MAX_IN_FLIGHT);
+let maxQueued = parseLimit(process.env.WEBSOCKET_PROXY_MAX_QUEUED, DEFAULT_PROXY_MAX_QUEUED);
+let inFlightCount = 0;
+let queueSequence = 0;
+const requestQueue: QueuedHttpRequest[] = [];
+// Graceful shutdown: while draining, new requests are rejected and the socket closes once the
+// accepted ones finish or the deadline passes
+let isDraining = false;
+let drainTimeoutId: ReturnType<typeof setTimeout> | null = null;
+// Server messages rejected by validation, by message type; kept across reconnects. Types the
+// protocol does not know share the "unknown" count, so a misbehaving relay cannot grow this.
+let rejectedMessageCounts: NonNullable<WebSocketProxyStats['rejectedMessages']> = {};
 
 function updateStatus(newStatus: WebSocketProxyStatus, details?: string) {
   if (currentStatus === newStatus && !details) return; // Avoid redundant updates unless new details are provided
@@ -43,178 +149,866 @@ function updateStatus(newStatus: WebSocketProxyStatus, details?: string) {
   console.log(`WebSocket Proxy Status: ${currentStatus}${details ? ` - ${details}` : ''}`);
 }
 
-function sendToServer(message: WSClientSentMessage) {
+function getStats(): WebSocketProxyStats {
+  const stats: WebSocketProxyStats = { inFlight: inFlightCount, queued: requestQueue.length };
+  if (rttSamples.length > 0) {
+    stats.latencyMs = rttSamples[rttSamples.length - 1];
+    stats.avgLatencyMs = Math.round(rttSamples.reduce((sum, sample) => sum + sample, 0) / rttSamples.length);
+  }
+  if (negotiatedCompression) {
+    stats.compression = negotiatedCompression;
+    stats.compressionRatio = getCompressionRatio();
+  }
+  if (Object.keys(rejectedMessageCounts).length > 0) {
+    stats.rejectedMessages = rejectedMessageCounts;
+  }
+  return stats;
+}
+
+function getCompressionRatio(): number | undefined {
+  return compressedWireBytes > 0 ? Math.round((compressedOriginalBytes / compressedWireBytes) * 10) / 10 : undefined;
+}
+
+function recordCompression(payload: CompressedPayload) {
+  if (!payload.compression) return;
+  const previousRatio = getCompressionRatio();
+  compressedOriginalBytes += payload.plainData.length;
+  compressedWireBytes += payload.data.length;
+  if (getCompressionRatio() !== previousRatio) {
+    notifyStatsChange();
+  }
+}
+
+function waitUntil(deadline: number): Promise<null> {
+  return new Promise(resolve => setTimeout(() => resolve(null), Math.max(0, deadline - Date.now())));
+}
+
+function notifyStatsChange() {
+  if (onStatsChangeCallback) {
+    onStatsChangeCallback(getStats());
+  }
+}
+
+// Returns whether the message was handed to the socket.
+function sendToServer(message: WSClientSentMessage): boolean {
+  proxyInspector.recordClientMessage(message);
+  return transmit(message);
+}
+
+function transmit(message: WSClientSentMessage): boolean {
   if (socket && socket.readyState === WS_OPEN) {
     try {
       const messageString = JSON.stringify(message);
       socket.send(messageString);
       // console.log("WebSocket Proxy: Sent message", message);
+      return true;
     } catch (error) {
       console.error("WebSocket Proxy: Error serializing message for sending:", error, message);
       // Optionally, notify of send error through status update or specific error callback
+      return false;
     }
   } else {
-    console.warn("WebSocket Proxy: Cannot send message, socket not open.", message);
+    console.error("WebSocket Proxy: Dropping message, socket not open.", message);
+    return false;
   }
 }
 
-async function handleHttpRequest(request: WSHttpRequestMessage) {
-  const { id, payload } = request;
-  let { method, url, headers, body } = payload; // Use let for url as it might be modified
+// Sends a message belonging to a proxied request, buffering it for replay. While the request
+// is detached (connection down, not yet resumed) it is only buffered. `wireMessage` is the
+// compressed form, if any; the inspector and the resume buffer always get the plain message,
+// since the connection that resumes the request may not negotiate the same compression.
+function sendForRequest(message: WSRequestOutboundMessage, wireMessage: WSRequestOutboundMessage = message) {
+  proxyInspector.recordClientMessage(message);
+  const outbox = requestOutboxes.get(message.id);
+  if (!outbox) {
+    transmit(wireMessage);
+    return;
+  }
+  outbox.buffer.record(message);
+  if (outbox.detached) return;
+  transmit(wireMessage);
+  outbox.buffer.trim(RESUME_WINDOW_MS, RESUME_BUFFER_MAX_BYTES);
+  if (outbox.buffer.isComplete()) {
+    scheduleOutboxExpiry(message.id, outbox);
+  }
+}
 
-  // Special handling for GET /v1beta/models to remove 'key' query parameter
-  if (method === 'GET') {
+// Blocks the stream read loop until the server has granted a credit (if credit flow control
+// is on) and the socket send buffer is below the high-water mark. While disconnected it only
+// waits for room in the resume buffer.
+async function waitForStreamCapacity(outbox: RequestOutbox, signal: AbortSignal) {
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    if (outbox.detached || !socket) {
+      if (outbox.buffer.bufferedBytes() < RESUME_BUFFER_MAX_BYTES) return;
+      await delay(RESUME_POLL_INTERVAL_MS, signal);
+      continue;
+    }
+    if (outbox.creditWindow) {
+      await outbox.creditWindow.acquire(signal);
+    }
+    if (outbox.detached || !socket) continue;
     try {
-      const parsedUrl = new URL(url);
-      if (parsedUrl.pathname.endsWith('/v1beta/models') || parsedUrl.pathname.endsWith('/v1beta/models/')) {
-        if (parsedUrl.searchParams.has('key')) {
-          parsedUrl.searchParams.delete('key');
-          url = parsedUrl.toString();
-          console.log(`WebSocket Proxy: Modified URL for ${id} to remove 'key' param: ${url}`);
-        }
+      await waitForSendBuffer(socket, SEND_BUFFER_HIGH_WATER_MARK_BYTES, signal);
+      return;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      // The socket went away mid-wait; the close handler detaches the request
+      await delay(RESUME_POLL_INTERVAL_MS, signal);
+    }
+  }
+}
+
+// Keeps a request's output around for one resume window, then forgets it. A request still
+// running when the window passes without a resume is aborted.
+function scheduleOutboxExpiry(id: string, outbox: RequestOutbox) {
+  if (outbox.expiryTimeoutId) clearTimeout(outbox.expiryTimeoutId);
+  outbox.expiryTimeoutId = setTimeout(() => {
+    outbox.expiryTimeoutId = null;
+    requestOutboxes.delete(id);
+    const controller = activeRequests.get(id);
+    if (controller && outbox.detached) {
+      console.warn(`WebSocket Proxy: Request ID ${id} was not resumed within ${RESUME_WINDOW_MS / 1000}s, aborting.`);
+      controller.abort("Stream was not resumed after reconnect");
+    }
+  }, RESUME_WINDOW_MS);
+}
+
+function discardOutbox(id: string) {
+  const outbox = requestOutboxes.get(id);
+  if (!outbox) return;
+  if (outbox.expiryTimeoutId) clearTimeout(outbox.expiryTimeoutId);
+  outbox.creditWindow?.open();
+  requestOutboxes.delete(id);
+}
+
+// Connection lost: requests keep running and buffer their output until resumed or expired
+function detachOutboxes() {
+  requestOutboxes.forEach((outbox, id) => {
+    outbox.detached = true;
+    // Credits were granted by the old connection; release any stream waiting on one
+    outbox.creditWindow?.open();
+    outbox.creditWindow = null;
+    scheduleOutboxExpiry(id, outbox);
+  });
+}
+
+function abortAllRequests(reason: string) {
+  activeRequests.forEach(controller => controller.abort(reason));
+  Array.from(requestOutboxes.keys()).forEach(discardOutbox);
+  disconnectedQueueIds.clear();
+}
+
+interface UpstreamAttempt {
+  response: Response;
+  controller: AbortController; // Aborts this attempt, including its body stream
+}
+
+// Fetches with a time-to-first-byte limit, retrying retryable statuses (nothing has been
+// streamed yet, so any method is safe) and network errors/timeouts (idempotent methods only).
+async function fetchWithRetries(id: string, url: string, fetchOptions: RequestInit, timing: ProxyRequestTimingConfig, requestSignal: AbortSignal): Promise<UpstreamAttempt> {
+  const canRetryFailures = isIdempotentMethod(fetchOptions.method || 'GET');
+
+  const rateLimitTarget = getRateLimitTarget(url);
+
+  for (let attempt = 0; ; attempt++) {
+    // Every attempt, retries included, counts against the host and model buckets
+    await rateLimitManager.acquire(rateLimitTarget, requestSignal);
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(requestSignal.reason);
+    requestSignal.addEventListener('abort', forwardAbort, { once: true });
+    const firstByteTimeoutId = setTimeout(() => {
+      controller.abort(new ProxyTimeoutError('first_byte', timing.firstByteTimeoutMs));
+    }, timing.firstByteTimeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...fetchOptions, signal: controller.signal });
+    } catch (error) {
+      requestSignal.removeEventListener('abort', forwardAbort);
+      const failure = controller.signal.reason instanceof ProxyTimeoutError ? controller.signal.reason : error;
+      const waitMs = getRetryDelayMs(attempt, null, timing);
+      if (requestSignal.aborted || !canRetryFailures || attempt >= timing.maxRetries || waitMs === null) {
+        throw failure;
+      }
+      console.warn(`WebSocket Proxy: Attempt ${attempt + 1} for request ID ${id} failed (${failure instanceof Error ? failure.message : String(failure)}), retrying in ${Math.round(waitMs)}ms`);
+      await delay(waitMs, requestSignal);
+      continue;
+    } finally {
+      clearTimeout(firstByteTimeoutId);
+    }
+
+    if (timing.retryStatuses.includes(response.status) && attempt < timing.maxRetries) {
+      const waitMs = getRetryDelayMs(attempt, response.headers.get('retry-after'), timing);
+      if (waitMs !== null) {
+        requestSignal.removeEventListener('abort', forwardAbort);
+        response.body?.cancel().catch(() => {});
+        console.warn(`WebSocket Proxy: Upstream returned ${response.status} for request ID ${id}, retrying in ${Math.round(waitMs)}ms`);
+        await delay(waitMs, requestSignal);
+        continue;
       }
-    } catch (e) {
-      console.error(`WebSocket Proxy: Error parsing URL for modification for request ID ${id}: ${url}`, e);
-      // Proceed with original URL if parsing/modification fails
     }
+    return { response, controller };
+  }
+}
+
+// reader.read() that aborts the attempt if no data arrives within the idle timeout.
+async function readWithIdleTimeout(reader: ReadableStreamDefaultReader<Uint8Array>, upstream: UpstreamAttempt, timeoutMs: number) {
+  const idleTimeoutId = setTimeout(() => {
+    upstream.controller.abort(new ProxyTimeoutError('idle', timeoutMs));
+  }, timeoutMs);
+  try {
+    return await reader.read();
+  } finally {
+    clearTimeout(idleTimeoutId);
+  }
+}
+
+// Reads a whole body, aborting the attempt if it stalls for longer than the idle timeout
+async function readBodyWithIdleTimeout(response: Response, upstream: UpstreamAttempt, timeoutMs: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { done, value } = await readWithIdleTimeout(reader, upstream, timeoutMs);
+    if (done) return concatBytes(parts);
+    parts.push(value);
   }
+}
+
+async function handleHttpRequest(request: WSHttpRequestMessage, cache: CacheLookup | null) {
+  const { id, payload } = request;
+  const { method, body, encoding } = payload;
 
+  // Local rewrite rules (credential injection, query param stripping, ...) run before the fetch
+  const rewrite = proxyRewriteManager.applyRequestRules(method, payload.url, payload.headers || {});
+  const { url, headers } = rewrite;
+  if (rewrite.appliedRuleIds.length > 0) {
+    console.log(`WebSocket Proxy: Applied rewrite rules [${rewrite.appliedRuleIds.join(', ')}] to request ID ${id}`);
+  }
+  proxyInspector.recordUpstreamRequest(id, url, headers);
+
+  const abortController = new AbortController();
+  activeRequests.set(id, abortController);
+  const outbox: RequestOutbox = {
+    buffer: createResumeBuffer(),
+    creditWindow: streamCreditWindowSize > 0 ? createCreditWindow(streamCreditWindowSize) : null,
+    detached: false,
+    expiryTimeoutId: null,
+  };
+  requestOutboxes.set(id, outbox);
+  const timing = resolveRequestTiming(url);
+  let upstream: UpstreamAttempt | null = null;
+  let streamBytesSent: number | null = null; // Set once stream_start is out; failures after it are STREAM_ERRORs
 
   const fetchOptions: RequestInit = {
     method,
     headers,
   };
 
-  if (method !== 'GET' && method !== 'HEAD') {
-    // Only include body if the method is NOT GET or HEAD.
-    // An empty string for 'body' on POST/PUT is valid.
-    // If 'body' is undefined or null, it won't be included, which is fine.
-    if (body !== undefined && body !== null) {
-        fetchOptions.body = body;
+  try {
+    if (method !== 'GET' && method !== 'HEAD') {
+      // Only include body if the method is NOT GET or HEAD.
+      // An empty string for 'body' on POST/PUT is valid.
+      // If 'body' is undefined or null, it won't be included, which is fine.
+      if (body !== undefined && body !== null) {
+        try {
+          fetchOptions.body = decodeBody(body, encoding);
+        } catch (error) {
+          console.error(`WebSocket Proxy: Could not decode the ${encoding} body of request ID ${id}:`, error);
+          sendForRequest({ id, type: "error", payload: { code: "FETCH_ERROR", kind: "unknown", message: `Request body is not valid ${encoding}; nothing was sent upstream.` } });
+          return;
+        }
+      }
     }
-  }
-
 
-  try {
-    const response = await fetch(url, fetchOptions);
+    upstream = await fetchWithRetries(id, url, fetchOptions, timing, abortController.signal);
+    const { response } = upstream;
 
-    const responseHeaders: Record<string, string> = {};
+    const upstreamHeaders: Record<string, string> = {};
     response.headers.forEach((value, key) => {
-      responseHeaders[key] = value;
+      upstreamHeaders[key] = value;
     });
+    const responseHeaders = proxyRewriteManager.applyResponseRules(upstreamHeaders, rewrite.responseActions);
+    const responseEncoding = chooseBodyEncoding(response.headers.get('content-type'));
+    // Servers that did not acknowledge "typed_errors" get 4xx/5xx answers as ordinary responses
+    if (response.status >= 400 && serverSupports('typed_errors')) {
+      // The upstream's own answer goes to the server whole, so it can pass it on or act on it
+      const errorBytes = await readBodyWithIdleTimeout(response, upstream, timing.idleTimeoutMs);
+      console.warn(`WebSocket Proxy: Upstream returned ${response.status} for request ID ${id} (${method} ${payload.url})`);
+      sendForRequest({
+        id,
+        type: "error",
+        payload: {
+          code: "HTTP_ERROR",
+          message: `Upstream returned ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+          http_response: { status: response.status, headers: responseHeaders, body: encodeBytes(errorBytes, responseEncoding), encoding: responseEncoding },
+        },
+      });
+      return;
+    }
+    const clientHeaders = cache ? { ...responseHeaders, [PROXY_CACHE_HEADER]: 'MISS' } : responseHeaders;
+    // Token usage of Gemini generate calls, read from the body as it passes through
+    const usageModel = getUsageModel(url);
+    const usageScanner = usageModel && response.ok ? createUsageScanner() : null;
+    const recordUsage = () => {
+      const usage = usageScanner?.finish();
+      if (usageModel && usage) usageLedgerManager.record('proxy', usageModel, usage);
+    };
 
     if (response.body && typeof response.body.getReader === 'function') { // Check if ReadableStream
       // Stream response
       const streamStartMessage: WSStreamStartMessage = {
         id,
         type: "stream_start",
-        payload: { status: response.status, headers: responseHeaders },
+        payload: { status: response.status, headers: clientHeaders },
       };
-      sendToServer(streamStartMessage);
+      sendForRequest(streamStartMessage);
+      streamBytesSent = 0;
 
       const reader = response.body.getReader();
-      const decoder = new TextDecoder(); // To decode Uint8Array to string
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      // Text is decoded incrementally so multi-byte characters split across chunks survive;
+      // binary chunks are forwarded byte for byte.
+      const decoder = responseEncoding === 'utf8' ? new TextDecoder() : null;
+      const textEncoder = new TextEncoder();
 
-        const chunkData = decoder.decode(value, { stream: true }); // stream: true for multi-byte characters
+      const sendStreamChunk = async (bytes: Uint8Array, eventIndex?: number) => {
+        await waitForStreamCapacity(outbox, abortController.signal);
+        streamBytesSent = (streamBytesSent ?? 0) + bytes.length;
+        const chunk = await compressPayload(bytes, responseEncoding, negotiatedCompression, PROXY_COMPRESSION_MIN_BYTES);
+        recordCompression(chunk);
+        const seq = outbox.buffer.nextSeq();
         const streamChunkMessage: WSStreamChunkMessage = {
           id,
           type: "stream_chunk",
-          payload: { data: chunkData },
+          payload: { data: chunk.plainData, encoding: responseEncoding, seq, ...(eventIndex !== undefined ? { event: eventIndex } : {}) },
         };
-        sendToServer(streamChunkMessage);
+        sendForRequest(streamChunkMessage, chunk.compression
+          ? { ...streamChunkMessage, payload: { ...streamChunkMessage.payload, data: chunk.data, compression: chunk.compression } }
+          : streamChunkMessage);
+      };
+
+      // With compression on, small upstream chunks are batched (bounded in size and delay)
+      // so each message carries enough data to compress well.
+      const batch: Uint8Array[] = [];
+      let batchSize = 0;
+      let batchStartedAt = 0;
+      const flushBatch = async () => {
+        if (batch.length === 0) return;
+        const bytes = concatBytes(batch);
+        batch.length = 0;
+        batchSize = 0;
+        await sendStreamChunk(bytes);
+      };
+
+      // "sse" framing: every chunk is one whole event, so events are neither split nor batched
+      const isEventStream = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() === 'text/event-stream';
+      const sseFramer = payload.framing === 'sse' && decoder && isEventStream ? createSseFramer() : null;
+      let sseEventIndex = 0;
+      const sendSseEvents = async (events: string[]) => {
+        for (const event of events) {
+          await sendStreamChunk(textEncoder.encode(event), sseEventIndex++);
+        }
+      };
+
+      // Raw body kept for the cache; dropped once it outgrows what may be cached
+      let cacheChunks: Uint8Array[] | null = cache ? [] : null;
+      let cacheBytes = 0;
+
+      let pendingRead: Promise<ReadableStreamReadResult<Uint8Array>> | null = null;
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        pendingRead ??= readWithIdleTimeout(reader, upstream, timing.idleTimeoutMs);
+        const result = batch.length > 0
+          ? await Promise.race([pendingRead, waitUntil(batchStartedAt + STREAM_BATCH_MAX_DELAY_MS)])
+          : await pendingRead;
+        if (!result) {
+          // Batch deadline passed before more data arrived; the read stays pending
+          await flushBatch();
+          continue;
+        }
+        pendingRead = null;
+        const { done, value } = result;
+        if (done) break;
+        if (abortController.signal.aborted) {
+          reader.cancel().catch(() => {});
+          throw new DOMException("Request cancelled by server", "AbortError");
+        }
+        usageScanner?.push(value);
+        if (cacheChunks) {
+          cacheBytes += value.length;
+          if (cacheBytes > PROXY_CACHE_MAX_BODY_BYTES) {
+            cacheChunks = null;
+          } else {
+            cacheChunks.push(value);
+          }
+        }
+
+        const chunkText = decoder?.decode(value, { stream: true }); // Whole characters only
+        if (sseFramer) {
+          await sendSseEvents(sseFramer.push(chunkText ?? ''));
+          continue;
+        }
+        const chunkBytes = chunkText !== undefined ? textEncoder.encode(chunkText) : value;
+        if (chunkBytes.length === 0) continue;
+        if (!negotiatedCompression) {
+          await sendStreamChunk(chunkBytes);
+          continue;
+        }
+        if (batch.length === 0) batchStartedAt = Date.now();
+        batch.push(chunkBytes);
+        batchSize += chunkBytes.length;
+        if (batchSize >= STREAM_BATCH_MAX_BYTES) {
+          await flushBatch();
+        }
       }
       // Final empty decode call to flush any remaining bytes from decoder buffer
-      const finalChunk = decoder.decode();
-      if (finalChunk) {
-         const streamChunkMessage: WSStreamChunkMessage = {
-          id,
-          type: "stream_chunk",
-          payload: { data: finalChunk },
-        };
-        sendToServer(streamChunkMessage);
+      const finalChunk = decoder?.decode();
+      if (sseFramer) {
+        const events = sseFramer.push(finalChunk ?? '');
+        const rest = sseFramer.flush(); // An unterminated last event is still delivered
+        await sendSseEvents(rest ? [...events, rest] : events);
+      } else if (finalChunk) {
+        batch.push(textEncoder.encode(finalChunk));
       }
-
+      await flushBatch();
+      if (cache && cacheChunks) {
+        proxyCacheManager.store(cache, response.status, responseHeaders, concatBytes(cacheChunks), responseEncoding);
+      }
+      recordUsage();
 
       const streamEndMessage: WSStreamEndMessage = {
         id,
         type: "stream_end",
         payload: {},
       };
-      sendToServer(streamEndMessage);
+      sendForRequest(streamEndMessage);
 
     } else {
       // Non-stream response
-      const responseBodyText = await response.text();
-      const httpResponseMessage: WSHttpResponseMessage = {
+      const responseBytes = new Uint8Array(await response.arrayBuffer());
+      usageScanner?.push(responseBytes);
+      recordUsage();
+      if (cache) {
+        proxyCacheManager.store(cache, response.status, responseHeaders, responseBytes, responseEncoding);
+      }
+      await sendHttpResponse(id, response.status, clientHeaders, responseBytes, responseEncoding);
+    }
+  } catch (error) {
+    const streamed = streamBytesSent !== null ? { bytesSent: streamBytesSent } : {};
+    if (abortController.signal.aborted) {
+      // Cancelled via a server "cancel" message; acknowledge with a terminal error
+      console.log(`WebSocket Proxy: Request ID ${id} (${method} ${payload.url}) cancelled.`);
+      const cancelledMessage: WSErrorMessage = {
         id,
-        type: "http_response",
+        type: "error",
         payload: {
-          status: response.status,
-          headers: responseHeaders,
-          body: responseBodyText,
+          code: "CANCELLED",
+          message: String(abortController.signal.reason ?? "Request cancelled by server"),
+          ...streamed,
         },
       };
-      sendToServer(httpResponseMessage);
+      sendForRequest(cancelledMessage);
+      return;
     }
-  } catch (error) {
-    console.error(`WebSocket Proxy: Fetch error for request ID ${id} (${method} ${url}):`, error);
-    const errorMessage: WSErrorMessage = {
-      id,
-      type: "error",
-      payload: {
-        code: "FETCH_ERROR",
-        message: error instanceof Error ? error.message : String(error),
-      },
-    };
-    // If it's an HTTP error from a response, we might already have response details
-    // For now, general FETCH_ERROR. More specific HTTP_ERROR could be added if response object is available before throw
-    if (error instanceof Response && error.status) { // This check is a bit simplistic
-        errorMessage.payload.code = "HTTP_ERROR";
-        errorMessage.payload.http_response = {
-            status: error.status,
-            headers: {}, // TODO: extract headers if possible
-            body: await error.text().catch(() => "Could not read error body"),
-        };
+    if (error instanceof RateLimitError) {
+      console.warn(`WebSocket Proxy: Request ID ${id} (${method} ${payload.url}) rate limited: ${error.message}`);
+      sendForRequest({ id, type: "error", payload: { code: "RATE_LIMITED", message: error.message, retryAfterMs: error.retryAfterMs } });
+      return;
+    }
+    const timeoutError = error instanceof ProxyTimeoutError
+      ? error
+      : upstream?.controller.signal.reason instanceof ProxyTimeoutError ? upstream.controller.signal.reason : null;
+    if (timeoutError) {
+      console.error(`WebSocket Proxy: Request ID ${id} (${method} ${payload.url}) timed out: ${timeoutError.message}`);
+      sendForRequest({ id, type: "error", payload: { code: "TIMEOUT", message: timeoutError.message, phase: timeoutError.phase, timeoutMs: timeoutError.timeoutMs, ...streamed } });
+      return;
     }
-    sendToServer(errorMessage);
+    if (streamBytesSent !== null) {
+      console.error(`WebSocket Proxy: Stream for request ID ${id} (${method} ${payload.url}) failed after ${streamBytesSent} bytes:`, error);
+      sendForRequest({ id, type: "error", payload: { code: "STREAM_ERROR", message: error instanceof Error ? error.message : String(error), bytesSent: streamBytesSent } });
+      return;
+    }
+    const failure = await classifyFetchFailure(error, url, abortController.signal,
+      probeUrl => proxyPolicyManager.isAllowed('HEAD', probeUrl));
+    console.error(`WebSocket Proxy: Fetch error (${failure.kind}) for request ID ${id} (${method} ${payload.url}):`, error);
+    sendForRequest({ id, type: "error", payload: { code: "FETCH_ERROR", kind: failure.kind, message: failure.message } });
+  } finally {
+    activeRequests.delete(id);
+  }
+}
+
+async function sendHttpResponse(id: string, status: number, headers: Record<string, string>, bytes: Uint8Array, encoding: WSBodyEncoding) {
+  const responseBody = await compressPayload(bytes, encoding, negotiatedCompression, PROXY_COMPRESSION_MIN_BYTES);
+  recordCompression(responseBody);
+  const httpResponseMessage: WSHttpResponseMessage = {
+    id,
+    type: "http_response",
+    payload: { status, headers, body: responseBody.plainData, encoding },
+  };
+  sendForRequest(httpResponseMessage, responseBody.compression
+    ? { ...httpResponseMessage, payload: { ...httpResponseMessage.payload, body: responseBody.data, compression: responseBody.compression } }
+    : httpResponseMessage);
+}
+
+// Fresh cached copy: answered right away, without taking a slot or touching the network
+function answerFromCache(id: string, cached: CachedResponse) {
+  const headers = {
+    ...cached.headers,
+    [PROXY_CACHE_HEADER]: 'HIT',
+    age: String(Math.floor((Date.now() - cached.storedAt) / 1000)),
+  };
+  sendHttpResponse(id, cached.status, headers, cached.body, cached.encoding).catch(error => {
+    console.error(`WebSocket Proxy: Could not answer request ID ${id} from cache:`, error);
+    sendToServer({ id, type: "error", payload: { code: "FETCH_ERROR", kind: "unknown", message: "Could not read cached response" } });
+  });
+}
+
+function sendRejection(id: string, code: WSRejectionCode, message: string) {
+  const errorMessage: WSErrorMessage = {
+    id,
+    type: "error",
+    payload: { code, message },
+  };
+  sendToServer(errorMessage);
+}
+
+function startHttpRequest(request: WSHttpRequestMessage, cache: CacheLookup | null) {
+  inFlightCount++;
+  notifyStatsChange();
+  handleHttpRequest(request, cache).finally(() => {
+    inFlightCount--;
+    drainRequestQueue();
+    notifyStatsChange();
+    finishDrainIfIdle();
+  });
+}
+
+function drainRequestQueue() {
+  while (inFlightCount < maxInFlight && requestQueue.length > 0) {
+    const next = requestQueue.shift()!;
+    startHttpRequest(next.request, next.cache);
   }
 }
 
+function enqueueHttpRequest(request: WSHttpRequestMessage) {
+  proxyInspector.recordRequest(request);
+
+  if (isDraining) {
+    console.warn(`WebSocket Proxy: Draining, rejecting request ID ${request.id}`);
+    sendRejection(request.id, "DRAINING", "Proxy is draining and accepts no new requests.");
+    return;
+  }
+
+  // Policy is checked before queueing so denied requests never take a slot or reach the network
+  const decision = proxyPolicyManager.evaluate(request.id, request.payload.method, request.payload.url);
+  if (!decision.allowed) {
+    console.warn(`WebSocket Proxy: Policy denied request ID ${request.id} (${decision.method} ${decision.url}): ${decision.reason}`);
+    sendRejection(request.id, "POLICY_DENIED", `Request to ${decision.method} ${decision.url} denied by proxy policy: ${decision.reason}.`);
+    return;
+  }
+
+  const cache = proxyCacheManager.lookup(request.payload.method, request.payload.url, request.payload.headers || {});
+  if (cache?.hit) {
+    console.log(`WebSocket Proxy: Answering request ID ${request.id} from cache.`);
+    answerFromCache(request.id, cache.hit);
+    return;
+  }
+
+  if (inFlightCount < maxInFlight && requestQueue.length === 0) {
+    startHttpRequest(request, cache);
+    return;
+  }
+  if (requestQueue.length >= maxQueued) {
+    console.warn(`WebSocket Proxy: Queue full (${requestQueue.length}), rejecting request ID ${request.id}`);
+    sendRejection(request.id, "BUSY", `Proxy is busy: ${inFlightCount} requests in flight and ${requestQueue.length} queued.`);
+    return;
+  }
+
+  const priority = Number(request.payload.priority) || 0;
+  const entry: QueuedHttpRequest = { request, cache, priority, sequence: queueSequence++ };
+  // Insert after every entry of equal or higher priority so equal priorities stay FIFO
+  const insertAt = requestQueue.findIndex(queued => queued.priority < priority);
+  if (insertAt === -1) {
+    requestQueue.push(entry);
+  } else {
+    requestQueue.splice(insertAt, 0, entry);
+  }
+  notifyStatsChange();
+}
+
+// Connection lost: queued requests are not started, their rejection waits for the next socket
+// `willReconnect` only changes the log line: without a reconnect the rejections are dropped
+// along with every other outbox.
+function rejectQueuedRequests(willReconnect: boolean) {
+  if (requestQueue.length === 0) return;
+  requestQueue.forEach(({ request }) => {
+    const outbox: RequestOutbox = { buffer: createResumeBuffer(), creditWindow: null, detached: true, expiryTimeoutId: null };
+    requestOutboxes.set(request.id, outbox);
+    sendForRequest({ id: request.id, type: "error", payload: { code: "DISCONNECTED", message: "Connection dropped while the request was queued; it was not sent upstream." } });
+    scheduleOutboxExpiry(request.id, outbox);
+    disconnectedQueueIds.add(request.id);
+  });
+  console.warn(willReconnect
+    ? `WebSocket Proxy: Connection lost with ${requestQueue.length} queued requests; rejecting them after reconnect.`
+    : `WebSocket Proxy: Connection closed with ${requestQueue.length} queued requests; dropping them.`);
+  requestQueue.length = 0;
+  notifyStatsChange();
+}
+
+function sendDisconnectedRejections() {
+  disconnectedQueueIds.forEach(id => {
+    const outbox = requestOutboxes.get(id);
+    if (!outbox || !outbox.detached) return; // Expired, or already resumed
+    outbox.detached = false;
+    outbox.buffer.replayFrom(-1)?.forEach(transmit);
+    scheduleOutboxExpiry(id, outbox);
+  });
+  disconnectedQueueIds.clear();
+}
+
+function handleCancel(message: WSCancelMessage) {
+  const queuedIndex = requestQueue.findIndex(queued => queued.request.id === message.id);
+  if (queuedIndex !== -1) {
+    requestQueue.splice(queuedIndex, 1);
+    notifyStatsChange();
+    sendRejection(message.id, "CANCELLED", message.payload?.reason || "Request cancelled by server");
+    finishDrainIfIdle();
+    return;
+  }
+
+  const controller = activeRequests.get(message.id);
+  if (!controller) {
+    // Already finished (or never started); the terminal message has been or will be sent
+    console.warn(`WebSocket Proxy: Cancel for unknown or completed request ID ${message.id}`);
+    return;
+  }
+  controller.abort(message.payload?.reason || "Request cancelled by server");
+}
+
+function handleFlowControl(message: WSFlowControlMessage) {
+  const windowSize = Math.floor(message.payload?.window ?? 0);
+  streamCreditWindowSize = windowSize > 0 ? windowSize : 0;
+  console.log(`WebSocket Proxy: Stream credit window ${streamCreditWindowSize > 0 ? `set to ${streamCreditWindowSize}` : 'disabled'}.`);
+}
+
+function handleStreamAck(message: WSStreamAckMessage) {
+  const outbox = requestOutboxes.get(message.id);
+  if (!outbox) return;
+  if (outbox.creditWindow && message.payload?.credits) {
+    outbox.creditWindow.grant(message.payload.credits);
+  }
+  if (typeof message.payload?.seq === 'number') {
+    outbox.buffer.acknowledge(message.payload.seq);
+  }
+}
+
+// The server picked a stream back up after reconnecting: replay what it missed, then go live
+function handleResume(message: WSResumeMessage) {
+  const { id } = message;
+  const lastSeq = Math.floor(message.payload?.lastSeq ?? -1);
+  const outbox = requestOutboxes.get(id);
+  const replay = outbox ? outbox.buffer.replayFrom(lastSeq) : null;
+  if (!outbox || !replay) {
+    const reason = outbox
+      ? `output after seq ${lastSeq} is no longer buffered`
+      : "unknown or expired request";
+    console.warn(`WebSocket Proxy: Cannot resume request ID ${id}: ${reason}.`);
+    discardOutbox(id);
+    activeRequests.get(id)?.abort(`Resume failed: ${reason}`);
+    sendRejection(id, "RESUME_FAILED", `Cannot resume request: ${reason}.`);
+    return;
+  }
+
+  if (outbox.expiryTimeoutId) {
+    clearTimeout(outbox.expiryTimeoutId);
+    outbox.expiryTimeoutId = null;
+  }
+  outbox.detached = false;
+  outbox.creditWindow = streamCreditWindowSize > 0 ? createCreditWindow(streamCreditWindowSize) : null;
+  console.log(`WebSocket Proxy: Resuming request ID ${id} after seq ${lastSeq}, replaying ${replay.length} messages.`);
+  replay.forEach(transmit);
+  if (outbox.buffer.isComplete()) {
+    scheduleOutboxExpiry(id, outbox);
+  }
+}
+
+
+// Whether the server listed `capability` in its hello_ack (never in legacy mode)
+function serverSupports(capability: string): boolean {
+  return negotiatedProtocol?.capabilities.includes(capability) ?? false;
+}
+
+function getMajorVersion(version: string): number {
+  return parseInt(String(version).split('.')[0], 10);
+}
+
+function sendAuth() {
+  if (!currentJwtToken) return;
+  const authMessage: WSAuthMessage = { type: "auth", payload: { token: currentJwtToken } };
+  sendToServer(authMessage);
+}
+
+function requestNewToken(reason: string) {
+  console.warn(`WebSocket Proxy: ${reason}`);
+  if (onAuthRequiredCallback) {
+    onAuthRequiredCallback(reason);
+  }
+}
+
+function clearTokenRefresh() {
+  if (tokenRefreshTimeoutId) {
+    clearTimeout(tokenRefreshTimeoutId);
+    tokenRefreshTimeoutId = null;
+  }
+}
+
+// Arms a timer shortly before the token's `exp`. A configured refresher gets the first try;
+// otherwise (or if it fails) the UI is asked to prompt for a new token.
+function scheduleTokenRefresh() {
+  clearTokenRefresh();
+  const expiry = currentJwtToken ? getTokenExpiry(currentJwtToken) : null;
+  if (expiry === null) return;
+
+  const delayMs = Math.max(0, expiry - TOKEN_REFRESH_LEAD_MS - Date.now());
+  tokenRefreshTimeoutId = setTimeout(async () => {
+    tokenRefreshTimeoutId = null;
+    const refreshedToken = await proxyAuthManager.refreshToken();
+    if (refreshedToken) {
+      updateToken(refreshedToken);
+      return;
+    }
+    const secondsLeft = Math.max(0, Math.round((expiry - Date.now()) / 1000));
+    requestNewToken(`Proxy token expires in ${secondsLeft}s. Enter a new token in Settings to stay connected.`);
+  }, delayMs);
+}
+
+function sendHello() {
+  const helloMessage: WSHelloMessage = {
+    type: "hello",
+    payload: {
+      protocolVersion: PROXY_PROTOCOL_VERSION,
+      capabilities: PROXY_CLIENT_CAPABILITIES,
+      compression: getSupportedCompression(),
+      maxConcurrency: maxInFlight,
+      clientBuild: PROXY_CLIENT_BUILD,
+    },
+  };
+  sendToServer(helloMessage);
+
+  clearHelloAckTimeout();
+  helloAckTimeoutId = setTimeout(() => {
+    helloAckTimeoutId = null;
+    negotiatedProtocol = { version: '1.0', capabilities: [] };
+    updateStatus(WebSocketProxyStatus.CONNECTED, "Server did not acknowledge hello; using legacy protocol.");
+  }, HELLO_ACK_TIMEOUT_MS);
+}
+
+function clearHelloAckTimeout() {
+  if (helloAckTimeoutId) {
+    clearTimeout(helloAckTimeoutId);
+    helloAckTimeoutId = null;
+  }
+}
+
+function handleHelloAck(message: WSHelloAckMessage) {
+  clearHelloAckTimeout();
+  const serverVersion = message.payload?.protocolVersion;
+  if (getMajorVersion(serverVersion) !== getMajorVersion(PROXY_PROTOCOL_VERSION)) {
+    const reason = `Protocol version mismatch: client ${PROXY_PROTOCOL_VERSION}, server ${serverVersion ?? 'unknown'}. Update the ${getMajorVersion(serverVersion) > getMajorVersion(PROXY_PROTOCOL_VERSION) ? 'client' : 'server'}.`;
+    console.error(`WebSocket Proxy: ${reason}`);
+    fatalCloseReason = reason;
+    socket?.close(CLOSE_CODE_PROTOCOL_MISMATCH, "Protocol version mismatch");
+    return;
+  }
+  negotiatedProtocol = { version: serverVersion, capabilities: message.payload.capabilities || [] };
+  negotiatedCompression = isSupportedCompression(message.payload.compression) ? message.payload.compression : null;
+  notifyStatsChange();
+  const serverBuild = message.payload.serverBuild ? `, server ${message.payload.serverBuild}` : '';
+  const compression = negotiatedCompression ? `, ${negotiatedCompression} compression` : '';
+  updateStatus(WebSocketProxyStatus.CONNECTED, `Protocol ${serverVersion}${serverBuild}${compression}`);
+}
 
 function onSocketOpen() {
-  updateStatus(WebSocketProxyStatus.CONNECTED);
+  socketWasOpened = true;
+  if (connectingEndpointUrl) {
+    proxyEndpointManager.recordConnectSuccess(connectingEndpointUrl, Date.now() - connectStartedAt);
+  }
+  updateStatus(WebSocketProxyStatus.CONNECTING, "Negotiating protocol...");
+  negotiatedProtocol = null;
+  streamCreditWindowSize = 0; // Credit flow control is negotiated per connection
+  negotiatedCompression = null; // So is compression
+  compressedOriginalBytes = 0;
+  compressedWireBytes = 0;
   currentReconnectDelay = RECONNECT_INITIAL_DELAY_MS; // Reset reconnect delay on successful connection
   if (reconnectTimeoutId) {
     clearTimeout(reconnectTimeoutId);
     reconnectTimeoutId = null;
   }
+  sendAuth(); // Must be the first message on the socket
+  sendHello();
+  sendDisconnectedRejections();
   startPing();
 }
 
+// Answers a message that failed validation, echoing its id so a malformed http_request is
+// still settled on the server's side
+function rejectServerMessage(error: ProtocolValidationError) {
+  const countKey = isServerMessageType(error.messageType) ? error.messageType : 'unknown';
+  rejectedMessageCounts = { ...rejectedMessageCounts, [countKey]: (rejectedMessageCounts[countKey] ?? 0) + 1 };
+  console.warn(`WebSocket Proxy: Rejected ${error.messageType ? `"${error.messageType}"` : 'unreadable'} message${error.messageId ? ` for ID ${error.messageId}` : ''}: ${error.message}`);
+  notifyStatsChange();
+  const reply: WSProtocolErrorMessage = {
+    type: "protocol_error",
+    payload: { field: error.field, reason: error.reason },
+  };
+  if (error.messageId) reply.id = error.messageId;
+  if (error.messageType) reply.payload.messageType = error.messageType;
+  sendToServer(reply);
+}
+
 function onSocketMessage(event: MessageEvent) {
+  let message: WSServerSentMessage;
+  try {
+    message = parseServerMessage(event.data);
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) {
+      rejectServerMessage(error);
+    } else {
+      console.error("WebSocket Proxy: Error validating message from server:", error, event.data);
+    }
+    return;
+  }
+
   try {
-    const message = JSON.parse(event.data as string) as WSServerSentMessage;
     // console.log("WebSocket Proxy: Received message", message);
 
     switch (message.type) {
+      case "hello_ack":
+        handleHelloAck(message as WSHelloAckMessage);
+        break;
       case "http_request":
-        handleHttpRequest(message as WSHttpRequestMessage);
+        enqueueHttpRequest(message as WSHttpRequestMessage);
+        break;
+      case "cancel":
+        handleCancel(message as WSCancelMessage);
+        break;
+      case "flow_control":
+        handleFlowControl(message as WSFlowControlMessage);
+        break;
+      case "stream_ack":
+        handleStreamAck(message as WSStreamAckMessage);
+        break;
+      case "resume":
+        handleResume(message as WSResumeMessage);
         break;
       case "pong":
-        // console.log("WebSocket Proxy: Pong received");
-        // Pong received, server is alive. No action needed beyond logging if desired.
+        handlePong();
         break;
-      default:
-        console.warn("WebSocket Proxy: Received unknown message type", message);
     }
   } catch (error) {
-    console.error("WebSocket Proxy: Error parsing message from server or handling it:", error, event.data);
-    // Optionally send an error back to server if malformed message is critical, though spec doesn't define this.
+    console.error("WebSocket Proxy: Error handling message from server:", error, message);
   }
 }
 
@@ -226,11 +1020,39 @@ function onSocketError(event: Event) {
 
 function onSocketClose(event: CloseEvent) {
   stopPing();
+  clearHelloAckTimeout();
+  negotiatedProtocol = null;
+  negotiatedCompression = null; // Renegotiated by the next hello_ack
+  // In-flight requests keep running and buffer their output so the server can resume them after
+  // reconnecting; the ones it does not resume are aborted when the resume window passes.
+  detachOutboxes();
+  // Same conditions as the reconnect decision below
+  rejectQueuedRequests(!explicitClose && !isDraining && !fatalCloseReason && !AUTH_FAILURE_CLOSE_CODES.includes(event.code));
+  if (!socketWasOpened && !explicitClose) {
+    recordEndpointFailure();
+  }
   if (reconnectTimeoutId) { // If a reconnect attempt is already scheduled, don't override
     return;
   }
 
-  if (explicitClose) {
+  if (!fatalCloseReason && !explicitClose && AUTH_FAILURE_CLOSE_CODES.includes(event.code)) {
+    fatalCloseReason = `Authentication rejected by relay (code ${event.code}${event.reason ? `: ${event.reason}` : ''}). Enter a new token in Settings.`;
+    requestNewToken(fatalCloseReason);
+  }
+
+  if (fatalCloseReason) {
+    // Reconnecting would fail the same way; stay down until the user connects again
+    clearTokenRefresh();
+    abortAllRequests("WebSocket connection closed");
+    updateStatus(WebSocketProxyStatus.ERROR, fatalCloseReason);
+    fatalCloseReason = null;
+    explicitClose = false;
+  } else if (explicitClose || isDraining) {
+    if (isDraining) { // Dropped mid-drain; reconnecting just to finish would defeat the purpose
+      clearDrain();
+      clearTokenRefresh();
+    }
+    abortAllRequests("WebSocket connection closed");
     updateStatus(WebSocketProxyStatus.IDLE, `Connection closed by client. Code: ${event.code}`);
     explicitClose = false; // Reset for next connect attempt
   } else {
@@ -240,12 +1062,65 @@ function onSocketClose(event: CloseEvent) {
   socket = null;
 }
 
+// Counts a failed connect against the endpoint; after repeated failures the endpoint
+// manager rotates to another one, which gets a fresh backoff.
+function recordEndpointFailure() {
+  if (!connectingEndpointUrl) return;
+  const rotated = proxyEndpointManager.recordConnectFailure(connectingEndpointUrl);
+  connectingEndpointUrl = null;
+  if (rotated) {
+    currentReconnectDelay = RECONNECT_INITIAL_DELAY_MS;
+  }
+}
+
+function sendPing() {
+  if (pingSentAt !== null) return; // Previous ping still awaiting its pong (and deadline)
+  const pingMsg: WSPingMessage = { type: "ping" };
+  if (!sendToServer(pingMsg)) return;
+  pingSentAt = Date.now();
+  pongTimeoutId = setTimeout(() => {
+    pongTimeoutId = null;
+    forceReconnect(`No pong within ${PONG_TIMEOUT_MS / 1000}s`);
+  }, PONG_TIMEOUT_MS);
+}
+
+function handlePong() {
+  if (pingSentAt === null) return; // Unsolicited pong
+  const rttMs = Date.now() - pingSentAt;
+  pingSentAt = null;
+  if (pongTimeoutId) {
+    clearTimeout(pongTimeoutId);
+    pongTimeoutId = null;
+  }
+  rttSamples = [...rttSamples, rttMs].slice(-RTT_SAMPLE_COUNT);
+  if (connectingEndpointUrl) {
+    proxyEndpointManager.recordRtt(connectingEndpointUrl, rttMs);
+  }
+  notifyStatsChange();
+}
+
+// Drops a connection that looks open but is dead. close() alone may not fire onclose
+// for a long time on a half-open connection, so the socket is detached and treated as closed now.
+function forceReconnect(reason: string) {
+  const deadSocket = socket;
+  if (!deadSocket) return;
+  console.warn(`WebSocket Proxy: ${reason}, reconnecting.`);
+  deadSocket.onopen = null;
+  deadSocket.onmessage = null;
+  deadSocket.onerror = null;
+  deadSocket.onclose = null;
+  try {
+    deadSocket.close(CLOSE_CODE_PONG_TIMEOUT, reason);
+  } catch (error) {
+    console.error("WebSocket Proxy: Error closing dead socket:", error);
+  }
+  onSocketClose({ code: CLOSE_CODE_PONG_TIMEOUT, reason, wasClean: false } as CloseEvent);
+}
+
 function startPing() {
   stopPing(); // Clear any existing ping interval
-  pingIntervalId = window.setInterval(() => {
-    const pingMsg: WSPingMessage = { type: "ping" };
-    sendToServer(pingMsg);
-  }, PING_INTERVAL_MS);
+  sendPing(); // Immediate first sample, so latency shows up right after connecting
+  pingIntervalId = setInterval(sendPing, PING_INTERVAL_MS);
 }
 
 function stopPing() {
@@ -253,6 +1128,15 @@ function stopPing() {
     clearInterval(pingIntervalId);
     pingIntervalId = null;
   }
+  if (pongTimeoutId) {
+    clearTimeout(pongTimeoutId);
+    pongTimeoutId = null;
+  }
+  pingSentAt = null;
+  if (rttSamples.length > 0) {
+    rttSamples = []; // Latency of a previous connection says nothing about the next one
+    notifyStatsChange();
+  }
 }
 
 function scheduleReconnect() {
@@ -265,9 +1149,9 @@ function scheduleReconnect() {
   }
 
   const delayWithJitter = currentReconnectDelay + Math.random() * RECONNECT_JITTER_MS;
-  updateStatus(WebSocketProxyStatus.RECONNECTING, `Attempting to reconnect in ${Math.round(delayWithJitter / 1000)}s...`);
+  updateStatus(WebSocketProxyStatus.RECONNECTING, `Attempting to reconnect to ${proxyEndpointManager.getCurrentEndpoint()} in ${Math.round(delayWithJitter / 1000)}s...`);
 
-  reconnectTimeoutId = window.setTimeout(() => {
+  reconnectTimeoutId = setTimeout(() => {
     reconnectTimeoutId = null; // Clear the ID once the timeout executes
     if (currentJwtToken) { // Ensure token is still set
         connect(currentJwtToken);
@@ -285,7 +1169,13 @@ function connect(jwtToken: string) {
     updateStatus(WebSocketProxyStatus.ERROR, "JWT Token is required to connect.");
     return;
   }
+  if (isTokenExpired(jwtToken)) {
+    updateStatus(WebSocketProxyStatus.ERROR, "Proxy token has expired.");
+    requestNewToken("Proxy token has expired. Enter a new token in Settings.");
+    return;
+  }
   currentJwtToken = jwtToken; // Store for reconnects
+  scheduleTokenRefresh();
 
   if (socket && (socket.readyState === WS_OPEN || socket.readyState === WS_CONNECTING)) {
     console.log("WebSocket Proxy: Already connected or connecting.");
@@ -295,13 +1185,18 @@ function connect(jwtToken: string) {
   explicitClose = false;
   updateStatus(WebSocketProxyStatus.CONNECTING);
 
-  const wsUrl = `${BASE_WEBSOCKET_URL}?auth_token=${jwtToken}`;
-  console.log(`WebSocket Proxy: Attempting to connect to ${wsUrl}`);
+  const endpointUrl = proxyEndpointManager.getCurrentEndpoint();
+  // The token travels in the first message, never in the URL
+  console.log(`WebSocket Proxy: Attempting to connect to ${endpointUrl}`);
+  connectingEndpointUrl = endpointUrl;
+  connectStartedAt = Date.now();
+  socketWasOpened = false;
 
   try {
-    socket = new WebSocket(wsUrl);
+    socket = new WebSocket(endpointUrl);
   } catch (error) {
     console.error("WebSocket Proxy: Instantiation error:", error);
+    recordEndpointFailure();
     updateStatus(WebSocketProxyStatus.ERROR, `Failed to instantiate WebSocket: ${error instanceof Error ? error.message : String(error)}`);
     scheduleReconnect(); // Attempt to reconnect even on instantiation error
     return;
@@ -314,8 +1209,10 @@ function connect(jwtToken: string) {
 }
 
 function disconnect() {
+  clearDrain();
   explicitClose = true;
   currentJwtToken = null; // Clear token on explicit disconnect
+  clearTokenRefresh();
   if (reconnectTimeoutId) {
     clearTimeout(reconnectTimeoutId);
     reconnectTimeoutId = null;
@@ -329,12 +1226,47 @@ function disconnect() {
       onSocketClose({ code: 1000, reason: "Client initiated disconnect on non-open socket", wasClean: true } as CloseEvent);
     }
   } else {
-     // No socket, ensure status is IDLE
+     // No socket, ensure status is IDLE; requests waiting to be resumed never will be
+     abortAllRequests("WebSocket connection closed");
      updateStatus(WebSocketProxyStatus.IDLE, "Disconnected (no active socket).");
   }
   socket = null; // Ensure socket is cleared
 }
 
+// Tells the server to stop sending work, then closes once in-flight and queued requests finish
+// or after `timeoutMs`, whichever comes first. Without an open socket this is a plain disconnect.
+function drain(timeoutMs = DEFAULT_PROXY_DRAIN_TIMEOUT_MS) {
+  if (isDraining) return;
+  if (!socket || socket.readyState !== WS_OPEN) {
+    disconnect();
+    return;
+  }
+  isDraining = true;
+  const drainingMessage: WSDrainingMessage = { type: "draining", payload: { timeoutMs } };
+  sendToServer(drainingMessage);
+  drainTimeoutId = setTimeout(() => {
+    drainTimeoutId = null;
+    console.warn(`WebSocket Proxy: Drain deadline passed with ${inFlightCount + requestQueue.length} requests outstanding, closing.`);
+    disconnect();
+  }, timeoutMs);
+  updateStatus(WebSocketProxyStatus.DRAINING, `Finishing ${inFlightCount + requestQueue.length} outstanding requests, closing within ${Math.ceil(timeoutMs / 1000)}s.`);
+  finishDrainIfIdle();
+}
+
+function finishDrainIfIdle() {
+  if (!isDraining || inFlightCount > 0 || requestQueue.length > 0) return;
+  console.log("WebSocket Proxy: Drain complete, closing.");
+  disconnect();
+}
+
+function clearDrain() {
+  isDraining = false;
+  if (drainTimeoutId) {
+    clearTimeout(drainTimeoutId);
+    drainTimeoutId = null;
+  }
+}
+
 function setOnStatusChange(callback: ((status: WebSocketProxyStatus, details?: string) => void) | null) {
   onStatusChangeCallback = callback;
   // Immediately provide current status if a callback is set
@@ -343,9 +1275,52 @@ function setOnStatusChange(callback: ((status: WebSocketProxyStatus, details?: s
   }
 }
 
+// Swaps the token used for this and future connections. On an open socket the relay
+// re-authenticates in place via a new "auth" message.
+function updateToken(jwtToken: string | null) {
+  if (!currentJwtToken) return; // Not connected; the next connect() picks up the new token
+  if (!jwtToken) {
+    disconnect();
+    return;
+  }
+  currentJwtToken = jwtToken;
+  scheduleTokenRefresh();
+  if (socket && socket.readyState === WS_OPEN) {
+    sendAuth();
+  }
+}
+
+function setOnAuthRequired(callback: ((reason: string) => void) | null) {
+  onAuthRequiredCallback = callback;
+}
+
+function setOnStatsChange(callback: ((stats: WebSocketProxyStats) => void) | null) {
+  onStatsChangeCallback = callback;
+  if (onStatsChangeCallback) {
+    onStatsChangeCallback(getStats());
+  }
+}
+
+function setConcurrencyLimits(limits: { maxInFlight?: number; maxQueued?: number }) {
+  if (limits.maxInFlight !== undefined && limits.maxInFlight > 0) {
+    maxInFlight = Math.floor(limits.maxInFlight);
+  }
+  if (limits.maxQueued !== undefined && limits.maxQueued >= 0) {
+    maxQueued = Math.floor(limits.maxQueued);
+  }
+  drainRequestQueue(); // A raised limit may free slots for queued requests
+  notifyStatsChange();
+}
+
 export const webSocketProxyManager = {
   connect,
   disconnect,
+  drain,
   setOnStatusChange,
+  setOnStatsChange,
+  setOnAuthRequired,
+  updateToken,
+  setConcurrencyLimits,
+  setHostRequestTiming,
   // Send is internal to the service for proxying, not exposed directly for arbitrary messages.
 };
@@ -0,0 +1,67 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, ChildProcess } from 'node:child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRelayServer, RelayServer } from '../relay/relayServer';
+import { createFakeUpstream, FakeUpstream, SLOW_BODY } from '../relay/fakeUpstream';
+
+// Runs `npm run proxy`'s entrypoint as a child process against the stand-in relay.
+
+const TOKEN = 'cli-token';
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), timeoutMs).unref()),
+  ]);
+}
+
+describe('headless CLI', () => {
+  let relay: RelayServer;
+  let upstream: FakeUpstream;
+  let configDir: string;
+  let child: ChildProcess | null = null;
+
+  before(async () => {
+    upstream = await createFakeUpstream();
+    relay = await createRelayServer({ token: TOKEN });
+    configDir = mkdtempSync(join(tmpdir(), 'proxy-cli-'));
+  });
+
+  after(async () => {
+    if (child && child.exitCode === null) child.kill('SIGKILL');
+    rmSync(configDir, { recursive: true, force: true });
+    await relay.close();
+    await upstream.close();
+  });
+
+  it('relays with a config file, logs JSON and drains on SIGINT', async () => {
+    const configPath = join(configDir, 'proxy.json');
+    writeFileSync(configPath, JSON.stringify({ policy: { defaultAction: 'deny', rules: [{ action: 'allow', host: '127.0.0.1' }] } }));
+    child = spawn(process.execPath, ['--experimental-websocket', '--import', 'tsx', 'proxy/cli.ts', '--url', relay.url, '--token', TOKEN, '--config', configPath], {
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    let stdout = '';
+    child.stdout!.on('data', (chunk: Buffer) => { stdout += chunk.toString('utf8'); });
+    const exited = new Promise<number | null>(resolve => child!.on('exit', code => resolve(code)));
+
+    await withTimeout(relay.waitForClient(), 15000, 'CLI to connect');
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=800`, headers: {} });
+    await new Promise(resolve => setTimeout(resolve, 200)); // Let the request reach the executor
+    child.kill('SIGINT');
+
+    const result = await withTimeout(response, 5000, 'response while draining');
+    assert.equal(result.error, undefined);
+    assert.equal(result.status, 200);
+    assert.equal(result.body.toString('utf8'), SLOW_BODY);
+    assert.equal(await withTimeout(exited, 10000, 'CLI to exit'), 0);
+
+    const records = stdout.trim().split('\n').map(line => JSON.parse(line));
+    assert.ok(records.every(record => typeof record.time === 'string' && typeof record.level === 'string'));
+    assert.ok(records.some(record => record.msg === 'status' && record.status === 'CONNECTED'));
+    assert.ok(records.some(record => record.msg === 'draining' && record.signal === 'SIGINT'));
+    assert.deepEqual(records.at(-1), { ...records.at(-1), msg: 'stopped', drained: true });
+  });
+});
@@ -0,0 +1,841 @@
+import './setup';
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { webSocketProxyManager } from '../services/webSocketService';
+import { proxyEndpointManager } from '../services/proxyEndpoints';
+import { proxyPolicyManager } from '../services/proxyPolicy';
+import { proxyCacheManager } from '../services/proxyCache';
+import { proxyRewriteManager } from '../services/proxyRewrite';
+import { rateLimitManager } from '../services/rateLimiter';
+import { usageLedgerManager } from '../services/usageLedger';
+import { WebSocketProxyStatus, WebSocketProxyStats, WSClientSentMessage, WSHttpRequestPayload, WSProtocolErrorMessage } from '../types';
+import { PROXY_PROTOCOL_VERSION, PROXY_CLIENT_CAPABILITIES, DEFAULT_PROXY_MAX_IN_FLIGHT, DEFAULT_PROXY_MAX_QUEUED, PROXY_ENDPOINT_FAILOVER_THRESHOLD } from '../constants';
+import { createRelayServer, RelayServer } from '../relay/relayServer';
+import { createFakeUpstream, FakeUpstream, PLAIN_BODY, ERROR_BODY, SLOW_BODY, BINARY_BODY, USAGE_METADATA, sseEvent } from '../relay/fakeUpstream';
+
+// Runs the real client against the stand-in relay and fake upstream, both on 127.0.0.1.
+
+const TOKEN = 'conformance-token';
+
+interface StatusEvent {
+  status: WebSocketProxyStatus;
+  details?: string;
+  at: number;
+}
+
+let statusEvents: StatusEvent[] = [];
+let statusWaiters: (() => void)[] = [];
+let latestStats: WebSocketProxyStats = { inFlight: 0, queued: 0 };
+
+webSocketProxyManager.setOnStatusChange((status, details) => {
+  statusEvents.push({ status, details, at: Date.now() });
+  statusWaiters.forEach(wake => wake());
+});
+webSocketProxyManager.setOnStatsChange(stats => { latestStats = stats; });
+
+// Resolves with the first status event matching `status` recorded after `since`
+function waitForStatus(status: WebSocketProxyStatus, timeoutMs = 5000, since = 0): Promise<StatusEvent> {
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      const match = statusEvents.slice(since).find(event => event.status === status);
+      if (!match) return false;
+      clearTimeout(timer);
+      statusWaiters = statusWaiters.filter(waiter => waiter !== check);
+      resolve(match);
+      return true;
+    };
+    const timer = setTimeout(() => {
+      statusWaiters = statusWaiters.filter(waiter => waiter !== check);
+      reject(new Error(`Timed out waiting for status ${status}; saw ${statusEvents.slice(since).map(event => event.status).join(', ')}`));
+    }, timeoutMs);
+    if (!check()) statusWaiters.push(check);
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), timeoutMs).unref()),
+  ]);
+}
+
+async function pollUntil(condition: () => boolean, timeoutMs: number, what: string) {
+  await withTimeout((async () => {
+    while (!condition()) await new Promise(resolve => setTimeout(resolve, 20));
+  })(), timeoutMs, what);
+}
+
+async function connectTo(relay: RelayServer) {
+  proxyEndpointManager.setEndpoints([relay.url]);
+  const since = statusEvents.length;
+  webSocketProxyManager.connect(TOKEN);
+  await waitForStatus(WebSocketProxyStatus.CONNECTED, 5000, since);
+  await relay.waitForClient();
+}
+
+async function disconnectClient() {
+  if (statusEvents.at(-1)?.status === WebSocketProxyStatus.IDLE) return;
+  const since = statusEvents.length;
+  webSocketProxyManager.disconnect();
+  await waitForStatus(WebSocketProxyStatus.IDLE, 5000, since);
+}
+
+let upstream: FakeUpstream;
+
+before(async () => {
+  upstream = await createFakeUpstream();
+  proxyPolicyManager.setPolicy({ defaultAction: 'deny', rules: [{ action: 'allow', host: '127.0.0.1' }] });
+});
+
+after(async () => {
+  await disconnectClient();
+  await upstream.close();
+});
+
+describe('handshake', () => {
+  let relay: RelayServer;
+  before(async () => { relay = await createRelayServer({ token: TOKEN }); });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('authenticates with the first message, then says hello', async () => {
+    await connectTo(relay);
+    assert.deepEqual(relay.messages[0], { type: 'auth', payload: { token: TOKEN } });
+    assert.equal(relay.messages[1].type, 'hello');
+    assert.equal(relay.hello()?.protocolVersion, PROXY_PROTOCOL_VERSION);
+    const connected = statusEvents.filter(event => event.status === WebSocketProxyStatus.CONNECTED).at(-1);
+    assert.match(connected?.details ?? '', /stand-in-relay/);
+  });
+
+  it('answers the initial ping round trip and reports latency', async () => {
+    await pollUntil(() => latestStats.latencyMs !== undefined, 2000, 'latency stats');
+    assert.ok(relay.messages.some(message => message.type === 'ping'));
+    assert.ok(latestStats.latencyMs! >= 0);
+  });
+});
+
+describe('authentication failure', () => {
+  let relay: RelayServer;
+  before(async () => { relay = await createRelayServer({ token: 'some-other-token' }); });
+  after(async () => {
+    webSocketProxyManager.setOnAuthRequired(null);
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('asks for a new token and does not reconnect when the relay rejects the token', async () => {
+    const authPrompts: string[] = [];
+    webSocketProxyManager.setOnAuthRequired(reason => authPrompts.push(reason));
+    proxyEndpointManager.setEndpoints([relay.url]);
+    const closed = relay.waitForDisconnect();
+    const since = statusEvents.length;
+    webSocketProxyManager.connect(TOKEN);
+    const failed = await waitForStatus(WebSocketProxyStatus.ERROR, 5000, since);
+    assert.equal((await withTimeout(closed, 2000, 'socket close')).code, 4001);
+    assert.match(failed.details ?? '', /Authentication rejected by relay \(code 4001: Unauthorized\)/);
+    assert.equal(authPrompts.length, 1);
+
+    await new Promise(resolve => setTimeout(resolve, 1800)); // Past the first reconnect delay
+    const later = statusEvents.slice(since).map(event => event.status);
+    assert.ok(!later.includes(WebSocketProxyStatus.RECONNECTING), `saw ${later.join(', ')}`);
+    assert.equal(relay.messages.filter(message => message.type === 'auth').length, 1);
+  });
+});
+
+describe('protocol version', () => {
+  let relay: RelayServer;
+  after(async () => { await disconnectClient(); await relay?.close(); });
+
+  it('falls back to the legacy protocol quickly when the server never acknowledges hello', async () => {
+    relay = await createRelayServer({ token: TOKEN, answerHello: false });
+    proxyEndpointManager.setEndpoints([relay.url]);
+    const since = statusEvents.length;
+    webSocketProxyManager.connect(TOKEN);
+    const connecting = await waitForStatus(WebSocketProxyStatus.CONNECTING, 5000, since);
+    const connected = await waitForStatus(WebSocketProxyStatus.CONNECTED, 5000, since);
+    assert.match(connected.details ?? '', /legacy protocol/);
+    assert.ok(connected.at - connecting.at < 3000, `legacy fallback took ${connected.at - connecting.at}ms`);
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('closes on a major version mismatch and does not reconnect', async () => {
+    relay = await createRelayServer({ token: TOKEN, protocolVersion: '99.0' });
+    proxyEndpointManager.setEndpoints([relay.url]);
+    const closed = relay.waitForDisconnect();
+    const since = statusEvents.length;
+    webSocketProxyManager.connect(TOKEN);
+    const failed = await waitForStatus(WebSocketProxyStatus.ERROR, 5000, since);
+    assert.match(failed.details ?? '', /Protocol version mismatch: client .*, server 99\.0\. Update the client/);
+    assert.equal((await withTimeout(closed, 2000, 'socket close')).code, 4000);
+
+    await new Promise(resolve => setTimeout(resolve, 1800)); // Past the first reconnect delay
+    const later = statusEvents.slice(since).map(event => event.status);
+    assert.ok(!later.includes(WebSocketProxyStatus.RECONNECTING) && !later.includes(WebSocketProxyStatus.CONNECTED), `saw ${later.join(', ')}`);
+  });
+});
+
+describe('proxied requests', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('forwards a plain JSON response', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} });
+    const result = await withTimeout(response, 5000, 'plain response');
+    assert.equal(result.error, undefined);
+    assert.equal(result.status, 200);
+    assert.match(result.headers?.['content-type'] ?? '', /application\/json/);
+    assert.deepEqual(JSON.parse(result.body.toString('utf8')), PLAIN_BODY);
+  });
+
+  it('streams SSE events in order with increasing sequence numbers', async () => {
+    const events = 8;
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/sse?events=${events}&intervalMs=20`, headers: {} });
+    const result = await withTimeout(response, 5000, 'SSE stream');
+    assert.equal(result.streamed, true);
+    assert.match(result.headers?.['content-type'] ?? '', /text\/event-stream/);
+    const expected = Array.from({ length: events }, (_, index) => sseEvent(index)).join('');
+    assert.equal(result.body.toString('utf8'), expected);
+    assert.deepEqual(result.chunks.map(chunk => chunk.seq), result.chunks.map((_, index) => index + 1));
+  });
+
+  it('delivers one whole SSE event per chunk with "sse" framing', async () => {
+    const events = 6;
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/sse?events=${events}&intervalMs=20&split=1`, headers: {}, framing: 'sse' });
+    const result = await withTimeout(response, 5000, 'framed SSE stream');
+    assert.deepEqual(result.chunks.map(chunk => chunk.event), Array.from({ length: events }, (_, index) => index));
+    assert.deepEqual(result.chunks.map(chunk => chunk.data.toString('utf8')), Array.from({ length: events }, (_, index) => sseEvent(index)));
+  });
+
+  it('sends request bodies upstream', async () => {
+    const body = JSON.stringify({ contents: [{ parts: [{ text: 'héllo' }] }] });
+    const { response } = relay.request({ method: 'POST', url: `${upstream.url}/echo`, headers: { 'content-type': 'application/json' }, body });
+    const result = await withTimeout(response, 5000, 'echo response');
+    const echoed = JSON.parse(result.body.toString('utf8'));
+    assert.equal(echoed.method, 'POST');
+    assert.equal(echoed.body, body);
+  });
+
+  it('reports upstream HTTP errors as HTTP_ERROR with status, headers and body', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/error`, headers: {} });
+    const result = await withTimeout(response, 5000, 'error response');
+    assert.equal(result.error?.code, 'HTTP_ERROR');
+    const { http_response: upstreamResponse } = result.error;
+    assert.equal(upstreamResponse.status, 500);
+    assert.match(upstreamResponse.headers['content-type'] ?? '', /application\/json/);
+    assert.equal(upstreamResponse.encoding, 'utf8');
+    assert.deepEqual(JSON.parse(upstreamResponse.body), ERROR_BODY);
+  });
+
+  it('reports a network FETCH_ERROR when the upstream is unreachable', async () => {
+    const closed = await createFakeUpstream();
+    await closed.close();
+    const { response } = relay.request({ method: 'GET', url: `${closed.url}/plain`, headers: {} });
+    const result = await withTimeout(response, 5000, 'fetch error');
+    assert.equal(result.error?.code, 'FETCH_ERROR');
+    assert.equal(result.error.kind, 'network');
+  });
+
+  it('reports STREAM_ERROR with the bytes sent when the body breaks mid-stream', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/broken?events=2`, headers: {} });
+    const result = await withTimeout(response, 5000, 'broken stream');
+    assert.equal(result.streamed, true);
+    assert.equal(result.error?.code, 'STREAM_ERROR');
+    const delivered = sseEvent(0) + sseEvent(1);
+    assert.equal(result.error.bytesSent, delivered.length);
+    assert.equal(result.body.toString('utf8'), delivered);
+  });
+
+  it('rejects requests the policy denies without fetching', async () => {
+    const before = upstream.requestCount();
+    const { response } = relay.request({ method: 'GET', url: 'http://localhost:1/plain', headers: {} });
+    const result = await withTimeout(response, 5000, 'policy rejection');
+    assert.equal(result.error?.code, 'POLICY_DENIED');
+    assert.equal(upstream.requestCount(), before);
+  });
+
+  it('cancels a slow request on the server\'s cancel message', async () => {
+    const { id, response } = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=2000`, headers: {} });
+    setTimeout(() => relay.cancel(id, 'test_cancel'), 100);
+    const result = await withTimeout(response, 5000, 'cancellation');
+    assert.equal(result.error?.code, 'CANCELLED');
+    assert.match(result.error?.message ?? '', /test_cancel/);
+  });
+
+  it('times out when the first byte takes too long', async () => {
+    webSocketProxyManager.setHostRequestTiming('127.0.0.1', { firstByteTimeoutMs: 200, maxRetries: 0 });
+    try {
+      const { response } = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=2000`, headers: {} });
+      const result = await withTimeout(response, 5000, 'timeout');
+      assert.equal(result.error?.code, 'TIMEOUT');
+    } finally {
+      webSocketProxyManager.setHostRequestTiming('127.0.0.1', null);
+    }
+  });
+
+  it('rejects host timing it cannot use with a readable error', () => {
+    assert.throws(() => webSocketProxyManager.setHostRequestTiming('127.0.0.1', { firstByteTimeoutMs: -1 }),
+      { message: 'Host "127.0.0.1": "firstByteTimeoutMs" must be a positive number.' });
+    assert.throws(() => webSocketProxyManager.setHostRequestTiming('127.0.0.1', { maxRetries: 1.5 }),
+      { message: 'Host "127.0.0.1": "maxRetries" must be a non-negative integer.' });
+    assert.throws(() => webSocketProxyManager.setHostRequestTiming('127.0.0.1', { retryStatuses: ['503'] } as never),
+      { message: 'Host "127.0.0.1": "retryStatuses" must be an array of HTTP status codes.' });
+    assert.throws(() => webSocketProxyManager.setHostRequestTiming('127.0.0.1', { firstByteTimeout: 200 } as never),
+      { message: 'Host "127.0.0.1": unknown field "firstByteTimeout".' });
+  });
+
+  it('retries a 503 after its Retry-After delay, POSTs included', async () => {
+    const before = upstream.requestCount();
+    const startedAt = Date.now();
+    const { response } = relay.request({ method: 'POST', url: `${upstream.url}/flaky?id=post&failures=1&retryAfter=1`, headers: {}, body: '{}' });
+    const result = await withTimeout(response, 5000, 'retried response');
+    assert.equal(result.status, 200);
+    assert.deepEqual(JSON.parse(result.body.toString('utf8')), PLAIN_BODY);
+    assert.equal(upstream.requestCount(), before + 2);
+    assert.ok(Date.now() - startedAt >= 950, 'waits for Retry-After before retrying');
+  });
+
+  it('passes the last 503 on once retries run out', async () => {
+    webSocketProxyManager.setHostRequestTiming('127.0.0.1', { maxRetries: 1 });
+    try {
+      const before = upstream.requestCount();
+      const { response } = relay.request({ method: 'GET', url: `${upstream.url}/flaky?id=exhausted&failures=5&retryAfter=0`, headers: {} });
+      const result = await withTimeout(response, 5000, 'exhausted retries');
+      assert.equal(result.error?.code, 'HTTP_ERROR');
+      assert.equal(result.error.http_response.status, 503);
+      assert.equal(upstream.requestCount(), before + 2);
+    } finally {
+      webSocketProxyManager.setHostRequestTiming('127.0.0.1', null);
+    }
+  });
+
+  it('times out an error body that stalls after the headers', async () => {
+    webSocketProxyManager.setHostRequestTiming('127.0.0.1', { idleTimeoutMs: 200 });
+    try {
+      const { response } = relay.request({ method: 'GET', url: `${upstream.url}/stalled-error`, headers: {} });
+      const result = await withTimeout(response, 5000, 'stalled error body');
+      assert.equal(result.error?.code, 'TIMEOUT');
+      assert.equal(result.error.phase, 'idle');
+      await pollUntil(() => latestStats.inFlight === 0, 1000, 'slot released');
+    } finally {
+      webSocketProxyManager.setHostRequestTiming('127.0.0.1', null);
+    }
+  });
+
+  it('completes slow responses within the time limits', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=300`, headers: {} });
+    const result = await withTimeout(response, 5000, 'slow response');
+    assert.equal(result.status, 200);
+    assert.equal(result.body.toString('utf8'), SLOW_BODY);
+  });
+});
+
+describe('rewrite rules', () => {
+  let relay: RelayServer;
+  before(async () => {
+    proxyRewriteManager.setSecret('testKey', 'secret-123');
+    proxyRewriteManager.setRules([
+      {
+        id: 'inject-key',
+        match: { methods: ['GET'], urlPattern: '/echo$' },
+        actions: [
+          { target: 'requestHeader', op: 'set', name: 'x-goog-api-key', value: '{{secret:testKey}}' },
+          { target: 'queryParam', op: 'set', name: 'key', value: '{{secret:testKey}}' },
+          { target: 'queryParam', op: 'remove', name: 'debug' },
+          { target: 'requestHeader', op: 'set', name: 'x-missing', value: '{{secret:notSet}}' },
+          { target: 'responseHeader', op: 'set', name: 'x-rewritten', value: 'yes' },
+        ],
+      },
+    ]);
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => {
+    proxyRewriteManager.resetRules();
+    proxyRewriteManager.setSecret('testKey', '');
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('expands {{secret:NAME}} into headers and query params, and rewrites the response', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/echo?debug=1`, headers: {} });
+    const result = await withTimeout(response, 5000, 'rewritten request');
+    const echoed = JSON.parse(result.body.toString('utf8'));
+    assert.equal(echoed.headers['x-goog-api-key'], 'secret-123');
+    assert.deepEqual(echoed.query, { key: 'secret-123' });
+    assert.equal(echoed.headers['x-missing'], undefined, 'an action referencing an unset secret is skipped');
+    assert.equal(result.headers?.['x-rewritten'], 'yes');
+  });
+
+  it('leaves requests the rule does not match untouched', async () => {
+    const { response } = relay.request({ method: 'POST', url: `${upstream.url}/echo?debug=1`, headers: {}, body: '' });
+    const echoed = JSON.parse((await withTimeout(response, 5000, 'plain request')).body.toString('utf8'));
+    assert.equal(echoed.headers['x-goog-api-key'], undefined);
+    assert.deepEqual(echoed.query, { debug: '1' });
+  });
+});
+
+describe('concurrency limits', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => {
+    webSocketProxyManager.setConcurrencyLimits({ maxInFlight: DEFAULT_PROXY_MAX_IN_FLIGHT, maxQueued: DEFAULT_PROXY_MAX_QUEUED });
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('runs queued requests by priority and rejects with BUSY when the queue is full', async () => {
+    webSocketProxyManager.setConcurrencyLimits({ maxInFlight: 1, maxQueued: 2 });
+    const finished: string[] = [];
+    const track = (name: string, payload: WSHttpRequestPayload) =>
+      relay.request(payload).response.then(result => { finished.push(name); return result; });
+
+    const slow = track('slow', { method: 'GET', url: `${upstream.url}/slow?delayMs=300`, headers: {} });
+    await pollUntil(() => latestStats.inFlight === 1, 2000, 'slot taken');
+    const low = track('low', { method: 'GET', url: `${upstream.url}/plain?priority=low`, headers: {} });
+    const high = track('high', { method: 'GET', url: `${upstream.url}/plain?priority=high`, headers: {}, priority: 5 });
+    await pollUntil(() => latestStats.queued === 2, 2000, 'requests queued');
+
+    const rejected = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 2000, 'busy rejection');
+    assert.equal(rejected.error?.code, 'BUSY');
+
+    const results = await withTimeout(Promise.all([slow, low, high]), 5000, 'queued responses');
+    assert.ok(results.every(result => result.status === 200));
+    assert.deepEqual(finished, ['slow', 'high', 'low']);
+  });
+});
+
+describe('flow control', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN, flowControlWindow: 2, autoAck: false });
+    await connectTo(relay);
+  });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('stops at the credit window and resumes when the server grants more', async () => {
+    const events = 6;
+    const { id, response } = relay.request({ method: 'GET', url: `${upstream.url}/sse?events=${events}&intervalMs=10`, headers: {} });
+    const chunksSent = () => relay.messages.filter(message => message.type === 'stream_chunk' && message.id === id).length;
+    await pollUntil(() => chunksSent() === 2, 2000, 'first window of chunks');
+    await new Promise(resolve => setTimeout(resolve, 300)); // Upstream has finished by now; the client must still hold back
+    assert.equal(chunksSent(), 2);
+
+    relay.ack(id, { seq: 2, credits: events });
+    const result = await withTimeout(response, 5000, 'stream after credits');
+    const expected = Array.from({ length: events }, (_, index) => sseEvent(index)).join('');
+    assert.equal(result.body.toString('utf8'), expected);
+  });
+});
+
+describe('servers without typed errors', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN, capabilities: PROXY_CLIENT_CAPABILITIES.filter(capability => capability !== 'typed_errors') });
+    await connectTo(relay);
+  });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('passes upstream 4xx/5xx answers through as ordinary responses', async () => {
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/error`, headers: {} });
+    const result = await withTimeout(response, 5000, 'error response');
+    assert.equal(result.error, undefined);
+    assert.equal(result.status, 500);
+    assert.deepEqual(JSON.parse(result.body.toString('utf8')), ERROR_BODY);
+  });
+});
+
+describe('binary bodies', () => {
+  let relay: RelayServer;
+  before(async () => {
+    proxyCacheManager.setConfig({ enabled: true, rules: [{ id: 'bytes', methods: ['GET'], urlPattern: '/bytes$', ttlSeconds: 60 }] });
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => {
+    proxyCacheManager.setConfig({ enabled: false, rules: [] });
+    proxyCacheManager.purge();
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('sends a base64 request body upstream and streams the bytes back unchanged', async () => {
+    const { response } = relay.request({
+      method: 'POST',
+      url: `${upstream.url}/bytes`,
+      headers: { 'content-type': 'application/octet-stream' },
+      body: BINARY_BODY.toString('base64'),
+      encoding: 'base64',
+    });
+    const result = await withTimeout(response, 5000, 'echoed bytes');
+    assert.equal(result.error, undefined);
+    assert.ok(result.body.equals(BINARY_BODY));
+  });
+
+  it('answers a request whose base64 body does not decode, and sends nothing upstream', async () => {
+    const before = upstream.requestCount();
+    const { response } = relay.request({
+      method: 'POST',
+      url: `${upstream.url}/bytes`,
+      headers: { 'content-type': 'application/octet-stream' },
+      body: '@@not base64@@',
+      encoding: 'base64',
+    });
+    const result = await withTimeout(response, 3000, 'an answer');
+    assert.equal(result.protocolError?.field, 'payload.body');
+    assert.equal(upstream.requestCount(), before);
+    await pollUntil(() => latestStats.inFlight === 0, 1000, 'the slot to be released');
+  });
+
+  it('carries binary stream chunks and cached http_response bodies byte for byte', async () => {
+    const url = `${upstream.url}/bytes?parts=4`;
+    const streamed = await withTimeout(relay.request({ method: 'GET', url, headers: {} }).response, 5000, 'streamed bytes');
+    assert.equal(streamed.streamed, true);
+    assert.ok(streamed.chunks.length > 1);
+    assert.ok(streamed.body.equals(BINARY_BODY));
+    assert.ok(relay.messages.some(message => message.type === 'stream_chunk' && message.payload.encoding === 'base64'));
+
+    // The cache answers the repeat with a single http_response
+    const cached = await withTimeout(relay.request({ method: 'GET', url, headers: {} }).response, 5000, 'cached bytes');
+    assert.equal(cached.streamed, false);
+    assert.equal(cached.headers?.['x-proxy-cache'], 'HIT');
+    assert.ok(cached.body.equals(BINARY_BODY));
+  });
+});
+
+describe('compression', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN, compression: true });
+    await connectTo(relay);
+  });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('compresses large stream payloads once negotiated', async () => {
+    const events = 200;
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/sse?events=${events}&intervalMs=1`, headers: {} });
+    const result = await withTimeout(response, 10000, 'compressed stream');
+    const expected = Array.from({ length: events }, (_, index) => sseEvent(index)).join('');
+    assert.equal(result.body.toString('utf8'), expected);
+    assert.ok(result.compressedPayloads > 0);
+    assert.equal(latestStats.compression, 'gzip');
+    assert.ok((latestStats.compressionRatio ?? 0) > 1);
+  });
+});
+
+describe('response cache', () => {
+  let relay: RelayServer;
+  before(async () => {
+    proxyCacheManager.setConfig({ enabled: true, rules: [{ id: 'plain', urlPattern: '/plain$', ttlSeconds: 60 }] });
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => {
+    proxyCacheManager.setConfig({ enabled: false, rules: [] });
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('answers a repeated GET from the cache without fetching', async () => {
+    const first = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 5000, 'first response');
+    assert.equal(first.headers?.['x-proxy-cache'], 'MISS');
+    const fetched = upstream.requestCount();
+
+    const second = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 5000, 'cached response');
+    assert.equal(second.headers?.['x-proxy-cache'], 'HIT');
+    assert.equal(second.streamed, false);
+    assert.deepEqual(JSON.parse(second.body.toString('utf8')), PLAIN_BODY);
+    assert.equal(upstream.requestCount(), fetched);
+    assert.equal(proxyCacheManager.getStats().hits, 1);
+  });
+
+  it('bypasses the cache for requests sent with Cache-Control: no-cache', async () => {
+    const fetched = upstream.requestCount();
+    const result = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: { 'cache-control': 'no-cache' } }).response, 5000, 'uncached response');
+    assert.equal(result.headers?.['x-proxy-cache'], 'MISS');
+    assert.equal(upstream.requestCount(), fetched + 1);
+  });
+});
+
+describe('rate limits', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  afterEach(() => rateLimitManager.setConfig({ enabled: false, buckets: [] }));
+  after(async () => {
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('rejects with RATE_LIMITED once a reject-mode model bucket is empty', async () => {
+    rateLimitManager.setConfig({
+      enabled: true,
+      buckets: [{ id: 'model', scope: 'model', match: 'test-model', capacity: 1, refillPerMinute: 1, mode: 'reject' }],
+    });
+    const url = `${upstream.url}/v1beta/models/test-model:generateContent`;
+    const first = await withTimeout(relay.request({ method: 'GET', url, headers: {} }).response, 5000, 'first response');
+    assert.equal(first.error, undefined);
+    const fetched = upstream.requestCount();
+
+    const second = await withTimeout(relay.request({ method: 'GET', url, headers: {} }).response, 5000, 'limited response');
+    assert.equal(second.error?.code, 'RATE_LIMITED');
+    assert.equal(upstream.requestCount(), fetched);
+
+    const otherModel = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/v1beta/models/other-model:generateContent`, headers: {} }).response, 5000, 'other model response');
+    assert.equal(otherModel.error, undefined);
+    assert.equal(rateLimitManager.getBuckets().find(bucket => bucket.key === 'test-model')?.rejected, 1);
+  });
+
+  it('delays requests until a delay-mode host bucket refills', async () => {
+    rateLimitManager.setConfig({
+      enabled: true,
+      buckets: [{ id: 'host', scope: 'host', match: '127.0.0.1', capacity: 1, refillPerMinute: 300, mode: 'delay' }],
+    });
+    await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 5000, 'first response');
+    const startedAt = Date.now();
+    const second = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 5000, 'delayed response');
+    assert.equal(second.status, 200);
+    assert.ok(Date.now() - startedAt >= 150, 'second request should wait for a token (one every 200ms)');
+  });
+});
+
+describe('usage accounting', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => {
+    usageLedgerManager.clear();
+    await disconnectClient();
+    await relay.close();
+  });
+
+  it('records usageMetadata from plain and streamed generate calls', async () => {
+    usageLedgerManager.clear();
+    const body = JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] });
+    const headers = { 'content-type': 'application/json' };
+    await withTimeout(relay.request({ method: 'POST', url: `${upstream.url}/v1beta/models/usage-model:generateContent`, headers, body }).response, 5000, 'generate response');
+    await withTimeout(relay.request({ method: 'POST', url: `${upstream.url}/v1beta/models/usage-model:streamGenerateContent?alt=sse`, headers, body }).response, 5000, 'stream response');
+
+    const entries = usageLedgerManager.getEntries();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].model, 'usage-model');
+    assert.equal(entries[0].source, 'proxy');
+    assert.equal(entries[0].requests, 2);
+    // The stream repeats usageMetadata with running totals; only the last one counts
+    assert.equal(entries[0].promptTokens, USAGE_METADATA.promptTokenCount * 2);
+    assert.equal(entries[0].candidatesTokens, USAGE_METADATA.candidatesTokenCount * 2);
+    assert.equal(entries[0].thoughtsTokens, USAGE_METADATA.thoughtsTokenCount * 2);
+    assert.equal(entries[0].cachedTokens, USAGE_METADATA.cachedContentTokenCount * 2);
+    assert.match(usageLedgerManager.exportCsv(), /^day,model,source,requests,/);
+  });
+
+  it('adds to usage another tab stored, and replaces a stored ledger that does not parse', async () => {
+    usageLedgerManager.clear();
+    const body = JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] });
+    const request = { method: 'POST', url: `${upstream.url}/v1beta/models/usage-model:generateContent`, headers: { 'content-type': 'application/json' }, body };
+    const now = new Date();
+    const today = [now.getFullYear(), now.getMonth() + 1, now.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+    const otherTab = { day: today, model: 'other-model', source: 'chat', requests: 3, promptTokens: 30, candidatesTokens: 60, thoughtsTokens: 0, cachedTokens: 0 };
+    localStorage.setItem('usageLedger', JSON.stringify([otherTab]));
+    await withTimeout(relay.request(request).response, 5000, 'generate response');
+    assert.deepEqual(usageLedgerManager.getEntries().map(entry => entry.model), ['other-model', 'usage-model']);
+    assert.deepEqual(JSON.parse(localStorage.getItem('usageLedger')!), usageLedgerManager.getEntries());
+
+    localStorage.setItem('usageLedger', JSON.stringify([{ ...otherTab, requests: 'three' }]));
+    await withTimeout(relay.request(request).response, 5000, 'generate response');
+    assert.deepEqual(usageLedgerManager.getEntries().map(entry => [entry.model, entry.requests]), [['other-model', 3], ['usage-model', 2]]);
+  });
+});
+
+describe('message validation', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+  });
+  after(async () => { await disconnectClient(); await relay.close(); });
+
+  it('answers an invalid http_request with a protocol_error for its id', async () => {
+    const before = upstream.requestCount();
+    const rejectedBefore = latestStats.rejectedMessages?.http_request ?? 0;
+    const payload = { method: 'GET', url: `${upstream.url}/plain`, headers: { 'x-count': 3 } };
+    const { response } = relay.request(payload as unknown as WSHttpRequestPayload);
+    const result = await withTimeout(response, 5000, 'protocol error');
+    assert.deepEqual(result.protocolError, { field: 'payload.headers.x-count', reason: 'must be a string, got number', messageType: 'http_request' });
+    assert.equal(upstream.requestCount(), before);
+    await pollUntil(() => latestStats.rejectedMessages?.http_request === rejectedBefore + 1, 2000, 'rejection count');
+  });
+
+  it('rejects a base64 body that does not decode', async () => {
+    const rejectedBefore = latestStats.rejectedMessages?.http_request ?? 0;
+    const payload = { method: 'POST', url: `${upstream.url}/bytes`, headers: {}, body: 'AAE=AAE=', encoding: 'base64' as const };
+    const result = await withTimeout(relay.request(payload).response, 5000, 'protocol error');
+    assert.deepEqual(result.protocolError, { field: 'payload.body', reason: 'must be valid base64 when encoding is "base64"', messageType: 'http_request' });
+    await pollUntil(() => latestStats.rejectedMessages?.http_request === rejectedBefore + 1, 2000, 'rejection count');
+  });
+
+  it('counts messages of unknown types under one "unknown" entry', async () => {
+    const before = latestStats.rejectedMessages?.unknown ?? 0;
+    relay.sendRaw(JSON.stringify({ type: 'made_up_1' }));
+    relay.sendRaw(JSON.stringify({ type: 'made_up_2' }));
+    await pollUntil(() => latestStats.rejectedMessages?.unknown === before + 2, 2000, 'unknown rejection count');
+    assert.deepEqual(Object.keys(latestStats.rejectedMessages ?? {}).sort(), ['http_request', 'unknown']);
+  });
+
+  it('survives an unreadable frame and keeps serving requests', async () => {
+    const isFrameRejection = (message: WSClientSentMessage) => message.type === 'protocol_error' && message.payload.field === 'message';
+    relay.sendRaw('{not json');
+    await pollUntil(() => relay.messages.some(isFrameRejection), 2000, 'protocol error');
+    const rejection = relay.messages.find(isFrameRejection) as WSProtocolErrorMessage;
+    assert.deepEqual(rejection, { type: 'protocol_error', payload: { field: 'message', reason: 'is not valid JSON' } });
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} });
+    const result = await withTimeout(response, 5000, 'plain response');
+    assert.equal(result.status, 200);
+  });
+});
+
+describe('graceful drain', () => {
+  let relay: RelayServer;
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+  });
+  beforeEach(() => connectTo(relay));
+  afterEach(disconnectClient);
+  after(() => relay.close());
+
+  it('finishes in-flight requests, rejects new ones with DRAINING, then closes', async () => {
+    const slow = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=400`, headers: {} });
+    await pollUntil(() => latestStats.inFlight === 1, 2000, 'request in flight');
+    const since = statusEvents.length;
+    const closed = relay.waitForDisconnect();
+    webSocketProxyManager.drain(5000);
+    await waitForStatus(WebSocketProxyStatus.DRAINING, 1000, since);
+    await pollUntil(() => relay.messages.some(message => message.type === 'draining' && message.payload.timeoutMs === 5000), 1000, 'draining message');
+
+    const late = await withTimeout(relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} }).response, 2000, 'late response');
+    assert.equal(late.error?.code, 'DRAINING');
+
+    const result = await withTimeout(slow.response, 5000, 'slow response');
+    assert.equal(result.status, 200);
+    assert.equal(result.body.toString('utf8'), SLOW_BODY);
+    await waitForStatus(WebSocketProxyStatus.IDLE, 2000, since);
+    assert.equal((await withTimeout(closed, 2000, 'socket close')).code, 1000);
+  });
+
+  it('closes at the deadline even with requests outstanding', async () => {
+    relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=3000`, headers: {} });
+    await pollUntil(() => latestStats.inFlight === 1, 2000, 'request in flight');
+    const since = statusEvents.length;
+    const startedAt = Date.now();
+    webSocketProxyManager.drain(200);
+    await waitForStatus(WebSocketProxyStatus.IDLE, 2000, since);
+    assert.ok(Date.now() - startedAt < 1500, 'drain should stop waiting at its deadline');
+  });
+});
+
+describe('connection loss', () => {
+  let relay: RelayServer;
+  afterEach(async () => { await disconnectClient(); await relay?.close(); });
+
+  it('reconnects after the connection drops', async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+    const since = statusEvents.length;
+    relay.dropClient();
+    const disconnected = await waitForStatus(WebSocketProxyStatus.DISCONNECTED, 5000, since);
+    const reconnected = await waitForStatus(WebSocketProxyStatus.CONNECTED, 5000, since);
+    assert.ok(reconnected.at - disconnected.at >= 1000, 'waits for the initial backoff');
+  });
+
+  it('backs off exponentially while the relay is down', async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+    const port = Number(new URL(relay.url).port);
+    const since = statusEvents.length;
+    await relay.close();
+
+    // Each failed attempt schedules the next one with a RECONNECTING status
+    const attempts = () => statusEvents.slice(since)
+      .filter(event => event.status === WebSocketProxyStatus.RECONNECTING)
+      .map(event => event.at);
+    await pollUntil(() => attempts().length >= 3, 15000, 'reconnect attempts');
+    const [first, second, third] = attempts();
+    const firstGap = second - first;
+    const secondGap = third - second;
+    assert.ok(firstGap >= 1000, `first retry after ${firstGap}ms`);
+    assert.ok(secondGap > firstGap, `second retry after ${secondGap}ms, first after ${firstGap}ms`);
+
+    relay = await createRelayServer({ token: TOKEN, port });
+    await waitForStatus(WebSocketProxyStatus.CONNECTED, 10000, statusEvents.length);
+  });
+
+  it('resumes an interrupted stream without losing chunks', async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+    const events = 30;
+    const { response } = relay.request({ method: 'GET', url: `${upstream.url}/sse?events=${events}&intervalMs=50`, headers: {} });
+    setTimeout(() => relay.dropClient(), 300);
+    const result = await withTimeout(response, 10000, 'resumed stream');
+    assert.equal(result.error, undefined);
+    const expected = Array.from({ length: events }, (_, index) => sseEvent(index)).join('');
+    assert.equal(result.body.toString('utf8'), expected);
+    assert.deepEqual(result.chunks.map(chunk => chunk.seq), result.chunks.map((_, index) => index + 1));
+  });
+
+  it('fails over to the next endpoint after repeated connect failures', async () => {
+    const dead = await createRelayServer({ token: TOKEN });
+    await dead.close();
+    relay = await createRelayServer({ token: TOKEN });
+    proxyEndpointManager.setEndpoints([dead.url, relay.url]);
+    const since = statusEvents.length;
+    webSocketProxyManager.connect(TOKEN);
+    await waitForStatus(WebSocketProxyStatus.CONNECTED, 15000, since);
+    await relay.waitForClient();
+
+    const { endpoints, currentUrl } = proxyEndpointManager.getState();
+    assert.equal(currentUrl, relay.url);
+    assert.equal(endpoints.find(endpoint => endpoint.url === dead.url)?.consecutiveFailures, PROXY_ENDPOINT_FAILOVER_THRESHOLD);
+    const attempts = statusEvents.slice(since).filter(event => event.status === WebSocketProxyStatus.RECONNECTING).length;
+    assert.equal(attempts, PROXY_ENDPOINT_FAILOVER_THRESHOLD);
+  });
+
+  it('rejects requests still queued at the drop with DISCONNECTED after reconnecting', async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    await connectTo(relay);
+    webSocketProxyManager.setConcurrencyLimits({ maxInFlight: 1 });
+    try {
+      const before = upstream.requestCount();
+      const slow = relay.request({ method: 'GET', url: `${upstream.url}/slow?delayMs=1500`, headers: {} });
+      const queued = relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} });
+      await pollUntil(() => latestStats.queued === 1, 2000, 'request queued');
+      relay.dropClient();
+
+      const rejected = await withTimeout(queued.response, 5000, 'queued rejection');
+      assert.equal(rejected.error?.code, 'DISCONNECTED');
+      const resumed = await withTimeout(slow.response, 5000, 'resumed slow response');
+      assert.equal(resumed.status, 200);
+      assert.equal(upstream.requestCount(), before + 1, 'the queued request never went upstream');
+      assert.ok(!relay.messages.some(message => message.type === 'error' && message.payload.code === 'RESUME_FAILED'));
+    } finally {
+      webSocketProxyManager.setConcurrencyLimits({ maxInFlight: DEFAULT_PROXY_MAX_IN_FLIGHT });
+    }
+  });
+
+  it('closes a connection whose pings go unanswered', async () => {
+    relay = await createRelayServer({ token: TOKEN, answerPings: false });
+    const closed = relay.waitForDisconnect();
+    await connectTo(relay);
+    const { code } = await withTimeout(closed, 15000, 'pong timeout');
+    assert.equal(code, 4008);
+  });
+});
@@ -0,0 +1,208 @@
+import './setup';
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { webSocketProxyManager, proxyWorkerClient } from '../services/proxyWorkerClient';
+import { proxyEndpointManager } from '../services/proxyEndpoints';
+import { proxyPolicyManager } from '../services/proxyPolicy';
+import { proxyCacheManager } from '../services/proxyCache';
+import { proxyRewriteManager } from '../services/proxyRewrite';
+import { rateLimitManager, RateLimitError } from '../services/rateLimiter';
+import { proxyAuthManager } from '../services/proxyAuth';
+import { ProxyTrafficEntry, ProxyWorkerCommand, ProxyWorkerEvent, WebSocketProxyStatus } from '../types';
+import { createRelayServer, RelayServer } from '../relay/relayServer';
+import { createFakeUpstream, FakeUpstream, PLAIN_BODY } from '../relay/fakeUpstream';
+
+// Runs the worker bridge with proxyWorker.ts loaded into this thread: the Worker stub hands
+// commands to the worker scope's onmessage and its postMessage back to the client, cloning
+// both ways like a real Worker. UI and worker share module instances here, so tests observe
+// the worker through the messages and by spying on the managers it calls.
+
+const TOKEN = 'bridge-token';
+
+const globals = globalThis as Record<string, unknown>;
+const sentCommands: ProxyWorkerCommand[] = [];
+const postedEvents: ProxyWorkerEvent[] = [];
+
+class InProcessWorker {
+  onmessage: ((event: { data: ProxyWorkerEvent }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  private loaded: Promise<unknown>;
+
+  constructor() {
+    globals.postMessage = (event: ProxyWorkerEvent) => {
+      postedEvents.push(event);
+      const data = structuredClone(event);
+      setTimeout(() => this.onmessage?.({ data }));
+    };
+    this.loaded = import('../services/proxyWorker');
+  }
+
+  postMessage(command: ProxyWorkerCommand) {
+    sentCommands.push(command);
+    const data = structuredClone(command);
+    this.loaded.then(() => setTimeout(() => {
+      (globals.onmessage as ((event: { data: ProxyWorkerCommand }) => void) | null)?.({ data });
+    }));
+  }
+}
+
+globals.Worker = InProcessWorker;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), timeoutMs).unref()),
+  ]);
+}
+
+async function pollUntil(condition: () => boolean, timeoutMs: number, what: string) {
+  await withTimeout((async () => {
+    while (!condition()) await new Promise(resolve => setTimeout(resolve, 20));
+  })(), timeoutMs, what);
+}
+
+// Long enough for a command to reach the worker and its events to come back
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('proxy worker bridge', () => {
+  let relay: RelayServer;
+  let upstream: FakeUpstream;
+  let statuses: WebSocketProxyStatus[] = [];
+  let traffic: ProxyTrafficEntry[] = [];
+
+  before(async () => {
+    relay = await createRelayServer({ token: TOKEN });
+    upstream = await createFakeUpstream();
+    proxyEndpointManager.setEndpoints([relay.url]);
+    proxyPolicyManager.setPolicy({ defaultAction: 'deny', rules: [{ action: 'allow', host: '127.0.0.1' }] });
+    webSocketProxyManager.setOnStatusChange(status => statuses.push(status));
+    proxyWorkerClient.setOnTrafficChange(entries => { traffic = entries; });
+  });
+
+  after(async () => {
+    webSocketProxyManager.disconnect();
+    await pollUntil(() => statuses.at(-1) === WebSocketProxyStatus.IDLE, 5000, 'disconnect');
+    webSocketProxyManager.setOnStatusChange(null);
+    proxyWorkerClient.setOnTrafficChange(null);
+    await relay.close();
+    await upstream.close();
+  });
+
+  it('replays the last status to a new callback without starting the worker', () => {
+    assert.deepEqual(statuses, [WebSocketProxyStatus.IDLE]);
+    assert.deepEqual(sentCommands, []);
+  });
+
+  it('connects and reports status through the worker', async () => {
+    webSocketProxyManager.connect(TOKEN);
+    await pollUntil(() => statuses.includes(WebSocketProxyStatus.CONNECTED), 5000, 'CONNECTED');
+    await relay.waitForClient();
+    assert.deepEqual(sentCommands.map(command => command.type), ['config', 'connect'], 'the config snapshot goes first');
+    assert.deepEqual([...new Set(statuses)], [WebSocketProxyStatus.IDLE, WebSocketProxyStatus.CONNECTING, WebSocketProxyStatus.CONNECTED]);
+
+    const replayed: WebSocketProxyStatus[] = [];
+    webSocketProxyManager.setOnStatusChange(status => replayed.push(status));
+    assert.deepEqual(replayed, [WebSocketProxyStatus.CONNECTED]);
+    webSocketProxyManager.setOnStatusChange(status => statuses.push(status));
+  });
+
+  it('sends traffic as per-entry updates, with bodies only while asked for', async () => {
+    const first = relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} });
+    await first.response;
+    await pollUntil(() => traffic.some(entry => entry.id === first.id && entry.state === 'complete'), 2000, 'first entry');
+    assert.equal(traffic.find(entry => entry.id === first.id)?.responseBody, '', 'bodies stay in the worker');
+
+    const eventsBefore = postedEvents.length;
+    const second = relay.request({ method: 'GET', url: `${upstream.url}/plain`, headers: {} });
+    await second.response;
+    await pollUntil(() => traffic.some(entry => entry.id === second.id && entry.state === 'complete'), 2000, 'second entry');
+    const updates = postedEvents.slice(eventsBefore).flatMap(event => event.type === 'traffic' ? [event.update] : []);
+    assert.ok(updates.length > 0);
+    updates.forEach(update => {
+      assert.equal(update.reset, false);
+      assert.deepEqual(update.entries.map(entry => entry.id), [second.id], 'only the changed entry is sent');
+    });
+    assert.deepEqual(traffic.map(entry => entry.id), [first.id, second.id]);
+
+    proxyWorkerClient.setTrafficBodies(true);
+    await pollUntil(() => traffic.every(entry => entry.responseBody !== ''), 2000, 'bodies');
+    assert.deepEqual(traffic.map(entry => JSON.parse(entry.responseBody)), [PLAIN_BODY, PLAIN_BODY]);
+    assert.ok(traffic[0].receivedAt instanceof Date, 'entries survive the structured clone');
+
+    proxyWorkerClient.clearTraffic();
+    await pollUntil(() => traffic.length === 0, 2000, 'cleared traffic');
+    proxyWorkerClient.setTrafficBodies(false);
+  });
+
+  it('applies only the config sections that changed', async () => {
+    const originalRateLimits = rateLimitManager.getConfig();
+    rateLimitManager.setConfig({
+      enabled: true,
+      buckets: [{ id: 'one-call', scope: 'model', match: 'bridge-model', capacity: 1, refillPerMinute: 1, mode: 'reject' }],
+    });
+    // Sharing the managers, the worker's parse of the first snapshot normalizes what the UI sends next
+    proxyWorkerClient.syncConfig();
+    await settle();
+    const cacheSetConfig = mock.method(proxyCacheManager, 'setConfig');
+    const rateLimitSetConfig = mock.method(rateLimitManager, 'setConfig');
+    const setRules = mock.method(proxyRewriteManager, 'setRules');
+    try {
+      await proxyWorkerClient.acquireRateLimit({ model: 'bridge-model' });
+      await assert.rejects(proxyWorkerClient.acquireRateLimit({ model: 'bridge-model' }), (error: unknown) => {
+        assert.ok(error instanceof RateLimitError);
+        assert.equal(error.ruleId, 'one-call');
+        return true;
+      });
+
+      // Resending the same snapshot must not refill the bucket
+      proxyWorkerClient.syncConfig();
+      await settle();
+      assert.equal(rateLimitSetConfig.mock.callCount(), 0);
+      assert.equal(cacheSetConfig.mock.callCount(), 0);
+      assert.equal(setRules.mock.callCount(), 0);
+      await assert.rejects(proxyWorkerClient.acquireRateLimit({ model: 'bridge-model' }), RateLimitError);
+
+      proxyRewriteManager.setRules([{ id: 'bridge-rule', match: { urlPattern: '/never$' }, actions: [] }]);
+      proxyWorkerClient.syncConfig();
+      await settle();
+      assert.equal(setRules.mock.callCount(), 2, 'once here, once in the worker');
+      assert.equal(rateLimitSetConfig.mock.callCount(), 0);
+      assert.equal(cacheSetConfig.mock.callCount(), 0);
+    } finally {
+      mock.restoreAll();
+      proxyRewriteManager.resetRules();
+      rateLimitManager.setConfig(originalRateLimits);
+      proxyWorkerClient.syncConfig();
+      await settle();
+    }
+  });
+
+  it('stores and forwards only the sections another tab changed', async () => {
+    const shared = { ...proxyWorkerClient.getConfig(), token: 'token-from-another-tab' };
+    const setRules = mock.method(proxyRewriteManager, 'setRules');
+    const commandsBefore = sentCommands.length;
+    try {
+      assert.deepEqual(proxyWorkerClient.applySharedConfig(shared), ['token']);
+      assert.equal(proxyAuthManager.getToken(), 'token-from-another-tab');
+      const config = sentCommands.slice(commandsBefore).find(command => command.type === 'config');
+      assert.equal(config?.type === 'config' && config.config.token, 'token-from-another-tab');
+      assert.equal(setRules.mock.callCount(), 0);
+
+      assert.deepEqual(proxyWorkerClient.applySharedConfig(shared), [], 'nothing left to apply');
+    } finally {
+      mock.restoreAll();
+      proxyAuthManager.setToken(null);
+      proxyWorkerClient.syncConfig();
+      await settle();
+    }
+  });
+
+  it('disconnects through the worker', async () => {
+    const since = statuses.length;
+    const closed = relay.waitForDisconnect();
+    webSocketProxyManager.disconnect();
+    await pollUntil(() => statuses.slice(since).includes(WebSocketProxyStatus.IDLE), 5000, 'IDLE');
+    assert.equal(sentCommands.at(-1)?.type, 'disconnect');
+    await withTimeout(closed, 2000, 'the relay to see the socket close');
+  });
+});
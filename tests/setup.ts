@@ -0,0 +1,25 @@
+import { WebSocket } from 'ws';
+
+// The proxy client is written for the browser; give Node the globals it expects.
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+const globals = globalThis as Record<string, unknown>;
+globals.window ??= globalThis;
+globals.localStorage ??= new MemoryStorage();
+globals.WebSocket ??= WebSocket;
+
+// The client logs every status change and request; keep test output readable
+if (!process.env.DEBUG_PROXY_TESTS) {
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+}
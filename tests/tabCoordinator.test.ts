@@ -0,0 +1,376 @@
+import './setup';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { tabCoordinator, TabRelayCommand } from '../services/tabCoordinator';
+import { RateLimitError, RateLimitTarget } from '../services/rateLimiter';
+import { ProxyWorkerConfig, TabRelaySnapshot, WebSocketProxyStatus } from '../types';
+
+// Runs the coordinator against in-process stand-ins for the other tabs: they speak the same
+// BroadcastChannel messages and compete for the same (stubbed) Web Lock.
+
+const LEADER_LOCK_NAME = 'ws-proxy-leader';
+const CHANNEL_NAME = 'ws-proxy-tabs';
+
+interface LockRequest {
+  callback: () => Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// Exclusive locks only, granted in request order, like navigator.locks
+class LockManagerStub {
+  private held = new Set<string>();
+  private queues = new Map<string, LockRequest[]>();
+
+  request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const entry: LockRequest = { callback, resolve, reject };
+      const queue = this.queues.get(name) ?? [];
+      this.queues.set(name, queue);
+      queue.push(entry);
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(entry);
+        if (index === -1) return; // Already granted; the signal only cancels waiting
+        queue.splice(index, 1);
+        reject(new DOMException('Lock request aborted', 'AbortError'));
+      }, { once: true });
+      this.grant(name);
+    });
+  }
+
+  private grant(name: string) {
+    const next = this.queues.get(name)?.[0];
+    if (!next || this.held.has(name)) return;
+    this.queues.get(name)!.shift();
+    this.held.add(name);
+    Promise.resolve()
+      .then(() => next.callback())
+      .then(next.resolve, next.reject)
+      .finally(() => {
+        this.held.delete(name);
+        this.grant(name);
+      });
+  }
+}
+
+const locks = new LockManagerStub();
+const globals = globalThis as Record<string, unknown>;
+globals.navigator = { locks };
+globals.addEventListener ??= () => {};
+globals.removeEventListener ??= () => {};
+
+interface TabMessage {
+  type: string;
+  tabId: string;
+  snapshot?: TabRelaySnapshot | null;
+  command?: TabRelayCommand;
+  config?: ProxyWorkerConfig;
+  callId?: number;
+  target?: RateLimitTarget;
+  error?: { ruleId: string; key: string; retryAfterMs: number };
+}
+
+interface FakeTab {
+  id: string;
+  received: TabMessage[];
+  post: (message: TabMessage) => void;
+  takeLock: () => Promise<void>; // Resolves once this tab holds the leader lock
+  releaseLock: () => void;
+  close: () => void;
+}
+
+function createFakeTab(id: string): FakeTab {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const received: TabMessage[] = [];
+  channel.onmessage = (event: MessageEvent<TabMessage>) => { received.push(event.data); };
+  let release: (() => void) | null = null;
+  return {
+    id,
+    received,
+    post: (message) => channel.postMessage(message),
+    takeLock: () => new Promise(granted => {
+      locks.request(LEADER_LOCK_NAME, {}, () => new Promise<void>(resolve => {
+        release = resolve;
+        granted();
+      }));
+    }),
+    releaseLock: () => release?.(),
+    close: () => {
+      release?.();
+      channel.close();
+    },
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), timeoutMs).unref()),
+  ]);
+}
+
+async function pollUntil(condition: () => boolean, timeoutMs: number, what: string) {
+  await withTimeout((async () => {
+    while (!condition()) await new Promise(resolve => setTimeout(resolve, 10));
+  })(), timeoutMs, what);
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+const CONNECTED_SNAPSHOT: TabRelaySnapshot = {
+  status: WebSocketProxyStatus.CONNECTED,
+  details: 'Protocol 1.6',
+  stats: { inFlight: 0, queued: 0 },
+  endpoints: { endpoints: [], currentUrl: 'ws://127.0.0.1:1/v1/ws' },
+  rateLimits: [],
+};
+
+const SAVED_CONFIG: ProxyWorkerConfig = {
+  policy: { defaultAction: 'deny', rules: [{ action: 'allow', host: 'generativelanguage.googleapis.com' }] },
+  rewriteRules: [],
+  secrets: {},
+  cacheConfig: { enabled: false, rules: [] },
+  rateLimitConfig: { enabled: false, buckets: [] },
+  endpoints: ['ws://127.0.0.1:1/v1/ws'],
+  token: 'token-saved-elsewhere',
+};
+
+const TARGET: RateLimitTarget = { host: 'generativelanguage.googleapis.com', model: 'gemini-2.5-flash' };
+
+describe('tab coordinator', () => {
+  let fakeTabs: FakeTab[] = [];
+  let remoteStates: TabRelaySnapshot[] = [];
+  let commands: TabRelayCommand[] = [];
+  let leaderships: boolean[] = [];
+  let acquired: RateLimitTarget[] = [];
+  let configs: ProxyWorkerConfig[] = [];
+
+  const addFakeTab = (id: string) => {
+    const tab = createFakeTab(id);
+    fakeTabs.push(tab);
+    return tab;
+  };
+
+  beforeEach(() => {
+    remoteStates = [];
+    commands = [];
+    leaderships = [];
+    acquired = [];
+    configs = [];
+    tabCoordinator.setOnConfig(config => configs.push(config));
+    tabCoordinator.setOnRateLimitRequest(async target => { acquired.push(target); });
+    tabCoordinator.setOnRemoteState(snapshot => remoteStates.push(snapshot));
+    tabCoordinator.setOnCommand(command => commands.push(command));
+    tabCoordinator.setOnBecomeLeader(resumeRelay => leaderships.push(resumeRelay));
+  });
+
+  afterEach(async () => {
+    tabCoordinator.stop();
+    fakeTabs.forEach(tab => tab.close());
+    fakeTabs = [];
+    tabCoordinator.setOnRemoteState(null);
+    tabCoordinator.setOnCommand(null);
+    tabCoordinator.setOnBecomeLeader(null);
+    tabCoordinator.setOnRateLimitRequest(null);
+    tabCoordinator.setOnConfig(null);
+    await settle();
+  });
+
+  it('leads when no other tab holds the lock, and resigns on stop', async () => {
+    const other = addFakeTab('other');
+    tabCoordinator.start();
+    await pollUntil(() => tabCoordinator.getState().isLeader, 1000, 'leadership');
+    const { tabId } = tabCoordinator.getState();
+    await pollUntil(() => other.received.some(message => message.type === 'leader'), 1000, 'leader announcement');
+    assert.deepEqual(other.received.find(message => message.type === 'leader'), { type: 'leader', tabId, snapshot: null });
+    assert.deepEqual(leaderships, [false]);
+    assert.equal(tabCoordinator.sendCommand('connect'), false, 'the leader acts on its own commands');
+    assert.equal(tabCoordinator.acquireRateLimit(TARGET), null, 'the leader uses its own buckets');
+
+    tabCoordinator.publishState(CONNECTED_SNAPSHOT);
+    other.post({ type: 'command', tabId: other.id, command: 'drain' });
+    await pollUntil(() => commands.length === 1, 1000, 'forwarded command');
+    assert.deepEqual(commands, ['drain']);
+
+    tabCoordinator.stop();
+    await pollUntil(() => other.received.some(message => message.type === 'resign'), 1000, 'resignation');
+  });
+
+  it('follows the tab holding the lock, mirrors its state and forwards commands', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    await pollUntil(() => leader.received.some(message => message.type === 'hello'), 1000, 'hello');
+    assert.equal(tabCoordinator.getState().isLeader, false);
+
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: CONNECTED_SNAPSHOT });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+    assert.deepEqual(remoteStates, [CONNECTED_SNAPSHOT]);
+
+    assert.equal(tabCoordinator.sendCommand('drain'), true);
+    await pollUntil(() => leader.received.some(message => message.type === 'command'), 1000, 'command');
+    assert.equal(leader.received.find(message => message.type === 'command')?.command, 'drain');
+  });
+
+  it('holds commands sent while no tab leads and delivers them to the next leader', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+
+    leader.post({ type: 'resign', tabId: leader.id });
+    await pollUntil(() => tabCoordinator.getState().leaderId === null, 1000, 'resignation');
+    assert.equal(tabCoordinator.sendCommand('connect'), true);
+    await settle();
+    assert.ok(!leader.received.some(message => message.type === 'command'), 'nobody to send it to yet');
+
+    const next = addFakeTab('next');
+    next.post({ type: 'leader', tabId: next.id, snapshot: null });
+    await pollUntil(() => next.received.some(message => message.type === 'command'), 1000, 'held command');
+    assert.equal(next.received.find(message => message.type === 'command')?.command, 'connect');
+  });
+
+  it('takes over when the leader releases the lock, resuming an active relay', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'state', tabId: leader.id, snapshot: CONNECTED_SNAPSHOT });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+
+    leader.post({ type: 'resign', tabId: leader.id });
+    await pollUntil(() => tabCoordinator.getState().leaderId === null, 1000, 'resignation');
+    tabCoordinator.sendCommand('disconnect'); // Clicked during the handover
+    leader.releaseLock();
+
+    await pollUntil(() => tabCoordinator.getState().isLeader, 1000, 'leadership');
+    assert.deepEqual(leaderships, [true]);
+    assert.deepEqual(commands, ['disconnect'], 'the held command runs in the new leader');
+    await pollUntil(() => leader.received.some(message => message.type === 'leader'), 1000, 'leader announcement');
+  });
+
+  it('takes rate limit tokens from the leader, which may refuse', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+    const { tabId } = tabCoordinator.getState();
+    const requests = () => leader.received.filter(message => message.type === 'rate_limit_request');
+
+    const granted = tabCoordinator.acquireRateLimit(TARGET);
+    assert.ok(granted);
+    await pollUntil(() => requests().length === 1, 1000, 'first request');
+    assert.deepEqual(requests()[0].target, TARGET);
+    leader.post({ type: 'rate_limit_result', tabId, callId: requests()[0].callId });
+    await withTimeout(granted, 1000, 'the token');
+
+    const refused = tabCoordinator.acquireRateLimit(TARGET);
+    await pollUntil(() => requests().length === 2, 1000, 'second request');
+    leader.post({ type: 'rate_limit_result', tabId: 'someone-else', callId: requests()[1].callId });
+    leader.post({ type: 'rate_limit_result', tabId, callId: requests()[1].callId, error: { ruleId: 'rpm', key: 'gemini-2.5-flash', retryAfterMs: 4000 } });
+    await assert.rejects(withTimeout(refused!, 1000, 'the refusal'), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.ruleId, 'rpm');
+      assert.equal(error.retryAfterMs, 4000);
+      return true;
+    });
+    assert.deepEqual(acquired, [], "this tab's buckets are not touched");
+  });
+
+  it('answers rate limit requests from other tabs while leading', async () => {
+    const other = addFakeTab('other');
+    tabCoordinator.setOnRateLimitRequest(async target => {
+      acquired.push(target);
+      if (acquired.length > 1) throw new RateLimitError('rpm', target.model!, 2500);
+    });
+    tabCoordinator.start();
+    await pollUntil(() => tabCoordinator.getState().isLeader, 1000, 'leadership');
+    const results = () => other.received.filter(message => message.type === 'rate_limit_result');
+
+    other.post({ type: 'rate_limit_request', tabId: other.id, callId: 1, target: TARGET });
+    other.post({ type: 'rate_limit_request', tabId: other.id, callId: 2, target: TARGET });
+    await pollUntil(() => results().length === 2, 1000, 'answers');
+    assert.deepEqual(acquired, [TARGET, TARGET]);
+    assert.deepEqual(results(), [
+      { type: 'rate_limit_result', tabId: other.id, callId: 1 },
+      { type: 'rate_limit_result', tabId: other.id, callId: 2, error: { ruleId: 'rpm', key: TARGET.model, retryAfterMs: 2500 } },
+    ]);
+  });
+
+  it('moves unanswered rate limit requests to the next leader', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+
+    const toNextTab = tabCoordinator.acquireRateLimit(TARGET)!;
+    await pollUntil(() => leader.received.some(message => message.type === 'rate_limit_request'), 1000, 'request');
+    leader.post({ type: 'resign', tabId: leader.id });
+    await pollUntil(() => tabCoordinator.getState().leaderId === null, 1000, 'resignation');
+    const held = tabCoordinator.acquireRateLimit(TARGET)!; // Nobody leads; waits
+
+    const next = addFakeTab('next');
+    next.post({ type: 'leader', tabId: next.id, snapshot: null });
+    const { tabId } = tabCoordinator.getState();
+    await pollUntil(() => next.received.filter(message => message.type === 'rate_limit_request').length === 2, 1000, 'resent requests');
+    next.received.filter(message => message.type === 'rate_limit_request')
+      .forEach(message => next.post({ type: 'rate_limit_result', tabId, callId: message.callId }));
+    await withTimeout(Promise.all([toNextTab, held]), 1000, 'both tokens');
+  });
+
+  it('acquires held rate limit requests itself on taking over', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+
+    const pending = tabCoordinator.acquireRateLimit(TARGET)!;
+    await pollUntil(() => leader.received.some(message => message.type === 'rate_limit_request'), 1000, 'request');
+    leader.releaseLock(); // Gone without answering
+    await withTimeout(pending, 1000, 'the token');
+    assert.ok(tabCoordinator.getState().isLeader);
+    assert.deepEqual(acquired, [TARGET]);
+  });
+
+  it('sends settings saved in a follower to the leader ahead of the command that uses them', async () => {
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+    const { tabId } = tabCoordinator.getState();
+
+    tabCoordinator.shareConfig(SAVED_CONFIG);
+    tabCoordinator.sendCommand('connect');
+    await pollUntil(() => leader.received.some(message => message.type === 'command'), 1000, 'command');
+    const sent = leader.received.filter(message => message.type === 'config' || message.type === 'command');
+    assert.deepEqual(sent, [
+      { type: 'config', tabId, config: SAVED_CONFIG },
+      { type: 'command', tabId, command: 'connect' },
+    ]);
+    assert.deepEqual(configs, [], 'a tab does not hear its own settings');
+  });
+
+  it('takes settings saved in other tabs, whether leading or following', async () => {
+    const other = addFakeTab('other');
+    tabCoordinator.start();
+    await pollUntil(() => tabCoordinator.getState().isLeader, 1000, 'leadership');
+    other.post({ type: 'config', tabId: other.id, config: SAVED_CONFIG });
+    await pollUntil(() => configs.length === 1, 1000, 'config while leading');
+    assert.deepEqual(configs, [SAVED_CONFIG]);
+
+    tabCoordinator.stop();
+    const leader = addFakeTab('leader');
+    await leader.takeLock();
+    tabCoordinator.start();
+    leader.post({ type: 'leader', tabId: leader.id, snapshot: null });
+    await pollUntil(() => tabCoordinator.getState().leaderId === leader.id, 1000, 'leader known');
+    const followerConfig = { ...SAVED_CONFIG, token: 'token-saved-in-leader' };
+    leader.post({ type: 'config', tabId: leader.id, config: followerConfig });
+    await pollUntil(() => configs.length === 2, 1000, 'config while following');
+    assert.deepEqual(configs[1], followerConfig);
+  });
+});
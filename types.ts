@@ -64,17 +64,276 @@ export enum WebSocketProxyStatus {
   RECONNECTING = 'RECONNECTING', // Attempting to reconnect
   DISCONNECTED = 'DISCONNECTED', // Unexpectedly lost connection
   ERROR = 'ERROR', // Connection error or other WebSocket error
+  DRAINING = 'DRAINING', // Finishing outstanding requests before closing; new ones are rejected
 }
 
+// Cross-tab coordination: one tab (the leader) owns the relay connection, the others mirror it
+export interface TabCoordinatorState {
+  tabId: string; // This tab
+  leaderId: string | null; // null while no tab holds the relay, e.g. just after the leader closed
+  isLeader: boolean;
+}
+
+// What the leader tab broadcasts about its connection. Traffic and the policy audit log are
+// left out: followers' inspectors point at the leader tab instead.
+export interface TabRelaySnapshot {
+  status: WebSocketProxyStatus;
+  details?: string;
+  stats: WebSocketProxyStats;
+  endpoints: ProxyEndpointState;
+  rateLimits: RateLimitBucketState[]; // The buckets every tab draws from
+}
+
+// Health of one relay endpoint, driven by connect failures and round-trip times
+export interface ProxyEndpointHealth {
+  url: string;
+  score: number; // 0-100, higher is healthier
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalConnects: number;
+  lastRttMs?: number;
+  avgRttMs?: number;
+  lastFailureAt?: Date;
+}
+
+export interface ProxyEndpointState {
+  endpoints: ProxyEndpointHealth[];
+  currentUrl: string;
+}
+
+export interface WebSocketProxyStats {
+  inFlight: number; // Proxied requests currently executing
+  queued: number; // Proxied requests waiting for a free slot
+  latencyMs?: number; // Round trip of the most recent ping/pong
+  avgLatencyMs?: number; // Moving average over recent ping/pong samples
+  compression?: WSPayloadCompression; // Negotiated for the current connection
+  compressionRatio?: number; // Uncompressed / sent size of compressed payloads on this connection
+  rejectedMessages?: Partial<Record<WSServerSentMessage['type'] | 'unknown', number>>; // Server messages that failed validation, by "type" ("unknown" when unreadable or of an unknown type)
+}
+
+// One proxied http_request as seen by the traffic inspector. Secrets in the URL, headers and
+// JSON or form bodies are redacted: request bodies on capture, response bodies on snapshot.
+export interface ProxyTrafficEntry {
+  id: string; // http_request ID
+  receivedAt: Date; // When the server's http_request arrived
+  startedAt?: Date; // When the upstream fetch began (after queueing)
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  requestBodyEncoding?: WSBodyEncoding;
+  requestBodyTruncated?: boolean; // Set with requestBody
+  state: 'pending' | 'complete' | 'error';
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody: string; // Text, or base64 when responseBodyEncoding is "base64"; capped
+  responseBodyEncoding: WSBodyEncoding;
+  responseBodyTruncated: boolean;
+  timeToFirstByteMs?: number;
+  durationMs?: number;
+  bytes: number; // Response body bytes forwarded to the server
+  chunkCount: number;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+// A batch of inspector changes. With `reset` the entries replace the whole list (after a clear,
+// or to resync); otherwise they are entries added or updated since the last batch, oldest first.
+export interface ProxyTrafficUpdate {
+  reset: boolean;
+  entries: ProxyTrafficEntry[];
+}
+
+// Upstream policy for the proxy executor. Rules are evaluated in order; the first match wins.
+export type ProxyPolicyAction = 'allow' | 'deny';
+
+export interface ProxyPolicyRule {
+  action: ProxyPolicyAction;
+  host?: string; // Exact hostname, or "*.example.com" for any subdomain. Omitted matches any host.
+  pathPrefix?: string; // e.g. "/v1beta/". Omitted matches any path.
+  methods?: string[]; // e.g. ["GET", "POST"]. Omitted matches any method.
+}
+
+export interface ProxyPolicy {
+  defaultAction: ProxyPolicyAction; // Applied when no rule matches
+  rules: ProxyPolicyRule[];
+}
+
+export interface ProxyPolicyDecision {
+  timestamp: Date;
+  requestId: string;
+  method: string;
+  url: string; // Origin and path only; the query string may carry secrets
+  allowed: boolean;
+  reason: string;
+}
+
+// Declarative rewrite rules for proxied requests. Every matching rule applies, in order.
+export type ProxyRewriteTarget = 'requestHeader' | 'queryParam' | 'responseHeader';
+// add: only if absent; replace: only if present; set: always; remove: delete if present
+export type ProxyRewriteOp = 'add' | 'replace' | 'set' | 'remove';
+
+export interface ProxyRewriteAction {
+  target: ProxyRewriteTarget;
+  op: ProxyRewriteOp;
+  name: string;
+  value?: string; // May reference locally stored secrets as {{secret:NAME}}
+}
+
+export interface ProxyRewriteMatch {
+  methods?: string[]; // Omitted matches any method
+  urlPattern?: string; // Regular expression tested against origin + path (no query string)
+  header?: { name: string; valuePattern?: string }; // Request header that must be present (and match)
+}
+
+export interface ProxyRewriteRule {
+  id: string;
+  description?: string;
+  enabled?: boolean; // Defaults to true
+  match: ProxyRewriteMatch;
+  actions: ProxyRewriteAction[];
+}
+
+// Opt-in cache for idempotent proxied requests (e.g. model listings), answered locally while fresh
+export interface ProxyCacheRule {
+  id: string;
+  description?: string;
+  methods?: string[]; // GET and/or HEAD; defaults to ["GET"]
+  urlPattern: string; // Regular expression tested against origin + path (no query string)
+  ttlSeconds: number; // Upper bound; a shorter Cache-Control max-age wins
+  varyHeaders?: string[]; // Request headers that are part of the cache key
+}
+
+export interface ProxyCacheConfig {
+  enabled: boolean;
+  rules: ProxyCacheRule[];
+}
+
+export interface ProxyCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  hitRate?: number; // 0..1, undefined until something was looked up
+}
+
+// Token buckets shared by proxied traffic and direct chat calls. A request takes one token
+// from every bucket that matches it; host buckets are per hostname, model buckets per model.
+export type RateLimitScope = 'host' | 'model';
+
+export type RateLimitMode = 'delay' | 'reject';
+
+export interface RateLimitBucketRule {
+  id: string;
+  scope: RateLimitScope;
+  match: string; // Host pattern ("example.com", "*.example.com") or model glob ("gemini-2.5-*", "*")
+  capacity: number; // Burst size
+  refillPerMinute: number; // Sustained requests per minute
+  mode: RateLimitMode; // "delay" waits for a token, "reject" fails with RATE_LIMITED
+  maxDelayMs?: number; // "delay" only: waits longer than this are rejected instead
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  buckets: RateLimitBucketRule[];
+}
+
+export interface RateLimitBucketState {
+  ruleId: string;
+  scope: RateLimitScope;
+  key: string; // Hostname or model this bucket counts
+  tokens: number; // Current level, fractional while refilling
+  capacity: number;
+  waiting: number; // Requests currently delayed on this bucket
+  rejected: number;
+}
+
+// Token usage as reported in Gemini responses (`usageMetadata`); promptTokenCount includes cached tokens
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export type UsageSource = 'proxy' | 'chat';
+
+// Totals for one model, local day and source
+export interface UsageLedgerEntry {
+  day: string; // YYYY-MM-DD, local time
+  model: string;
+  source: UsageSource;
+  requests: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  cachedTokens: number;
+}
+
+// USD per million tokens; the first entry whose glob matches the model is used
+export interface ModelPrice {
+  model: string; // e.g. "gemini-2.5-flash*"
+  inputPerMillion: number;
+  outputPerMillion: number; // Applies to candidate and thought tokens
+  cachedInputPerMillion?: number; // Defaults to the input price
+}
+
+// Timeouts and retries for proxied requests, configurable per upstream host
+export interface ProxyRequestTimingConfig {
+  firstByteTimeoutMs: number; // Until response headers arrive
+  idleTimeoutMs: number; // Between body chunks
+  maxRetries: number; // Additional attempts after the first; 0 disables retries
+  retryBaseDelayMs: number; // Exponential backoff base when there is no Retry-After
+  retryMaxDelayMs: number; // Upper bound for any single wait, Retry-After included
+  retryStatuses: number[]; // Upstream statuses that are retried before anything is streamed
+}
+
+// How a body string is encoded on the wire. "utf8" is plain text, "base64" carries raw bytes.
+// Chosen from the body's Content-Type; absent means "utf8" for compatibility.
+export type WSBodyEncoding = "utf8" | "base64";
+
+// Optional payload compression, negotiated per connection in hello/hello_ack. A compressed body
+// is base64 of the compressed bytes; once decompressed it is read per `encoding` as usual.
+export type WSPayloadCompression = "gzip" | "deflate";
+
+// Optional regrouping of a streamed body. "sse": each stream_chunk of a text/event-stream
+// response carries exactly one whole SSE event (blank line included).
+export type WSStreamFraming = "sse";
+
 // Messages sent from Client (this app) to WebSocket Server
 export interface WSPingMessage {
   type: "ping";
 }
 
+// Sent first on every connection, and again whenever the token is refreshed.
+// Keeps the JWT out of the URL (and therefore out of proxy and server access logs).
+export interface WSAuthPayload {
+  token: string;
+}
+export interface WSAuthMessage {
+  type: "auth";
+  payload: WSAuthPayload;
+}
+
+// Sent right after "auth" on every connection. Versions are "major.minor"; only the major must match.
+export interface WSHelloPayload {
+  protocolVersion: string;
+  capabilities: string[]; // e.g. "binary_bodies", "cancel", "flow_control", "priority"
+  compression: WSPayloadCompression[]; // Supported payload compression algorithms, in preference order
+  maxConcurrency: number; // Max proxied requests executed in parallel
+  clientBuild: string;
+}
+export interface WSHelloMessage {
+  type: "hello";
+  payload: WSHelloPayload;
+}
+
 export interface WSHttpResponsePayload {
   status: number;
   headers: Record<string, string>;
-  body: string; // response.text()
+  body: string; // Response body, encoded per `encoding` (after decompression, if compressed)
+  encoding: WSBodyEncoding;
+  compression?: WSPayloadCompression;
 }
 export interface WSHttpResponseMessage {
   id: string; // from the original http_request
@@ -93,7 +352,11 @@ export interface WSStreamStartMessage {
 }
 
 export interface WSStreamChunkPayload {
-  data: string; // decoded chunk
+  data: string; // Chunk bytes, encoded per `encoding` (after decompression, if compressed)
+  encoding: WSBodyEncoding;
+  compression?: WSPayloadCompression;
+  seq: number; // 1-based position within the stream, used to resume after a reconnect
+  event?: number; // 0-based SSE event index, only with "sse" framing
 }
 export interface WSStreamChunkMessage {
   id: string; // from the original http_request
@@ -108,22 +371,89 @@ export interface WSStreamEndMessage {
   payload: WSStreamEndPayload;
 }
 
-export interface WSErrorPayload {
-  code: string; // e.g., "FETCH_ERROR", "HTTP_ERROR", "STREAM_ERROR"
+// Why a proxied request failed, as a union on `code` so the server can decide whether to retry,
+// fail over or hand the upstream's own answer on. `message` is for humans only.
+interface WSErrorPayloadBase {
   message: string;
-  http_response?: { // Optional: if it's an HTTP error, include details
+  bytesSent?: number; // Body bytes already forwarded in stream_chunks, when the failure came after stream_start
+}
+
+// FETCH_ERROR: no response arrived. Browsers report DNS, network, CORS and TLS failures alike,
+// so there "cors" is only inferred (the host answers a no-cors probe) and "tls" never shows.
+export type WSFetchFailureKind = "dns" | "network" | "cors" | "tls" | "unknown";
+export interface WSFetchErrorPayload extends WSErrorPayloadBase {
+  code: "FETCH_ERROR";
+  kind: WSFetchFailureKind;
+}
+
+// The upstream answered 4xx/5xx; its response is passed along in full. Only sent to servers that
+// acknowledge "typed_errors"; others get the answer as a regular stream_start/http_response.
+export interface WSHttpErrorPayload extends WSErrorPayloadBase {
+  code: "HTTP_ERROR";
+  http_response: {
     status: number;
     headers: Record<string, string>;
-    body: string;
+    body: string; // Encoded per `encoding`
+    encoding: WSBodyEncoding;
   };
 }
+
+// The upstream body failed after stream_start was sent; the chunks before it were delivered
+export interface WSStreamErrorPayload extends WSErrorPayloadBase {
+  code: "STREAM_ERROR";
+  bytesSent: number;
+}
+
+export interface WSTimeoutErrorPayload extends WSErrorPayloadBase {
+  code: "TIMEOUT";
+  phase: "first_byte" | "idle";
+  timeoutMs: number;
+}
+
+export interface WSRateLimitedErrorPayload extends WSErrorPayloadBase {
+  code: "RATE_LIMITED";
+  retryAfterMs: number;
+}
+
+// Refused or stopped by the client itself, before or instead of an upstream answer
+// DISCONNECTED: the request was still queued when the connection dropped; sent after reconnecting
+export type WSRejectionCode = "CANCELLED" | "BUSY" | "POLICY_DENIED" | "RESUME_FAILED" | "DRAINING" | "DISCONNECTED";
+export interface WSRejectionPayload extends WSErrorPayloadBase {
+  code: WSRejectionCode;
+}
+
+export type WSErrorPayload = WSFetchErrorPayload | WSHttpErrorPayload | WSStreamErrorPayload | WSTimeoutErrorPayload | WSRateLimitedErrorPayload | WSRejectionPayload;
+export type WSErrorCode = WSErrorPayload["code"];
 export interface WSErrorMessage {
   id: string; // from the original http_request
   type: "error";
   payload: WSErrorPayload;
 }
 
-export type WSClientSentMessage = WSPingMessage | WSHttpResponseMessage | WSStreamStartMessage | WSStreamChunkMessage | WSStreamEndMessage | WSErrorMessage;
+// Sent when the client starts a graceful shutdown: the server should stop routing new requests
+// here. The client closes the socket once outstanding requests finish or `timeoutMs` passes.
+export interface WSDrainingPayload {
+  timeoutMs: number;
+}
+export interface WSDrainingMessage {
+  type: "draining";
+  payload: WSDrainingPayload;
+}
+
+// Reply to a server message that failed validation. When the message carried an id this is
+// the terminal reply for that id, so an invalid http_request does not leave the server waiting.
+export interface WSProtocolErrorPayload {
+  field: string; // Dotted path of the offending field, e.g. "payload.url"; "message" for an unreadable frame
+  reason: string;
+  messageType?: string; // "type" of the rejected message, when it had one
+}
+export interface WSProtocolErrorMessage {
+  id?: string; // from the rejected message, if it had one
+  type: "protocol_error";
+  payload: WSProtocolErrorPayload;
+}
+
+export type WSClientSentMessage = WSPingMessage | WSAuthMessage | WSHelloMessage | WSHttpResponseMessage | WSStreamStartMessage | WSStreamChunkMessage | WSStreamEndMessage | WSErrorMessage | WSDrainingMessage | WSProtocolErrorMessage;
 
 
 // Messages received by Client (this app) from WebSocket Server
@@ -131,7 +461,10 @@ export interface WSHttpRequestPayload {
   method: string; // "GET", "POST", etc.
   url: string;
   headers: Record<string, string>;
-  body?: string; // Should be a JSON string if present
+  body?: string; // Request body, encoded per `encoding` (usually a JSON string)
+  encoding?: WSBodyEncoding; // Defaults to "utf8"
+  priority?: number; // Higher runs first when requests are queued; defaults to 0 (FIFO)
+  framing?: WSStreamFraming; // Ignored unless the response is text/event-stream
 }
 export interface WSHttpRequestMessage {
   id: string; // Unique request ID
@@ -143,4 +476,98 @@ export interface WSPongMessage {
   type: "pong";
 }
 
-export type WSServerSentMessage = WSHttpRequestMessage | WSPongMessage;
+export interface WSHelloAckPayload {
+  protocolVersion: string;
+  capabilities: string[]; // Capabilities the server will use on this connection
+  compression?: WSPayloadCompression; // Picked from the client's list; absent keeps payloads uncompressed
+  serverBuild?: string;
+}
+export interface WSHelloAckMessage {
+  type: "hello_ack";
+  payload: WSHelloAckPayload;
+}
+
+export interface WSCancelPayload {
+  reason?: string; // e.g., "client_disconnected"
+}
+export interface WSCancelMessage {
+  id: string; // ID of the http_request to abort
+  type: "cancel";
+  payload?: WSCancelPayload;
+}
+
+// Enables credit-based flow control for stream_chunk forwarding on this connection.
+// Every stream starts with `window` credits; each stream_chunk consumes one. 0 disables it.
+export interface WSFlowControlPayload {
+  window: number;
+}
+export interface WSFlowControlMessage {
+  type: "flow_control";
+  payload: WSFlowControlPayload;
+}
+
+export interface WSStreamAckPayload {
+  credits?: number; // Number of additional stream_chunk messages the client may send
+  seq?: number; // Highest stream_chunk seq received; lets the client drop its replay buffer up to here
+}
+export interface WSStreamAckMessage {
+  id: string; // ID of the streaming http_request
+  type: "stream_ack";
+  payload: WSStreamAckPayload;
+}
+
+// Sent after a reconnect for each stream the server still wants. The client replays what the
+// server missed and keeps forwarding live. lastSeq -1 means even stream_start was not received.
+export interface WSResumePayload {
+  lastSeq: number;
+}
+export interface WSResumeMessage {
+  id: string; // ID of the original http_request
+  type: "resume";
+  payload: WSResumePayload;
+}
+
+export type WSServerSentMessage = WSHttpRequestMessage | WSPongMessage | WSHelloAckMessage | WSCancelMessage | WSFlowControlMessage | WSStreamAckMessage | WSResumeMessage;
+
+// --- Proxy worker bridge ---
+// The proxy executor runs in a Web Worker. The UI owns (and persists) the configuration and
+// pushes it as a snapshot; the worker reports connection state and its runtime state back.
+
+export interface ProxyWorkerConfig {
+  policy: ProxyPolicy;
+  rewriteRules: ProxyRewriteRule[];
+  secrets: Record<string, string>;
+  cacheConfig: ProxyCacheConfig;
+  rateLimitConfig: RateLimitConfig;
+  endpoints: string[];
+  token: string | null;
+}
+
+// callId pairs a request with its reply in either direction
+export type ProxyWorkerCommand =
+  | { type: "connect"; token: string }
+  | { type: "disconnect" }
+  | { type: "drain"; timeoutMs?: number }
+  | { type: "update_token"; token: string | null }
+  | { type: "set_concurrency_limits"; limits: { maxInFlight?: number; maxQueued?: number } }
+  | { type: "set_host_request_timing"; hostPattern: string; overrides: Partial<ProxyRequestTimingConfig> | null }
+  | { type: "config"; config: ProxyWorkerConfig }
+  | { type: "clear_traffic" }
+  | { type: "set_traffic_bodies"; enabled: boolean } // Off: traffic events leave request and response bodies out
+  | { type: "clear_policy_audit" }
+  | { type: "purge_cache" }
+  | { type: "acquire_rate_limit"; callId: number; host?: string; model?: string }
+  | { type: "token_refreshed"; callId: number; token: string | null };
+
+export type ProxyWorkerEvent =
+  | { type: "status"; status: WebSocketProxyStatus; details?: string }
+  | { type: "stats"; stats: WebSocketProxyStats }
+  | { type: "auth_required"; reason: string }
+  | { type: "traffic"; update: ProxyTrafficUpdate }
+  | { type: "policy_audit"; log: ProxyPolicyDecision[] }
+  | { type: "cache_stats"; stats: ProxyCacheStats }
+  | { type: "endpoints"; state: ProxyEndpointState }
+  | { type: "rate_limits"; buckets: RateLimitBucketState[] }
+  | { type: "usage"; source: UsageSource; model: string; usage: GeminiUsageMetadata }
+  | { type: "rate_limit_result"; callId: number; error?: { ruleId: string; key: string; retryAfterMs: number } }
+  | { type: "refresh_token"; callId: number };
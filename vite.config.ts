@@ -6,7 +6,13 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEBSOCKET_PROXY_URL': JSON.stringify(env.WEBSOCKET_PROXY_URL),
+        'process.env.CLIENT_BUILD': JSON.stringify(env.CLIENT_BUILD || process.env.npm_package_version),
+        'process.env.WEBSOCKET_PROXY_MAX_IN_FLIGHT': JSON.stringify(env.WEBSOCKET_PROXY_MAX_IN_FLIGHT),
+        'process.env.WEBSOCKET_PROXY_MAX_QUEUED': JSON.stringify(env.WEBSOCKET_PROXY_MAX_QUEUED),
+        'process.env.WEBSOCKET_PROXY_POLICY': JSON.stringify(env.WEBSOCKET_PROXY_POLICY),
+        'process.env.WEBSOCKET_PROXY_HOST_TIMING': JSON.stringify(env.WEBSOCKET_PROXY_HOST_TIMING)
       },
       resolve: {
         alias: {